@@ -1,61 +1,171 @@
+import { randomUUID } from "node:crypto"
 import { type NextRequest, NextResponse } from "next/server"
+import {
+  ClassificationError,
+  getProviderChain,
+  getResilientProvider,
+  toClassificationError,
+  type ClassificationImage,
+  type ClassificationProvider,
+} from "@/lib/classification"
+import { getResultCache } from "@/lib/classification/cache"
+import type { ClassifyResponse } from "@/lib/classification/result"
+import { SESSION_COOKIE, checkRequestLimits, clientIp, consumeProviderBudget } from "@/lib/classification/rate-limit"
+import type { ClassifyMode } from "@/lib/classification/schema"
+import { readClassifyUpload, type ClassifyUpload } from "@/lib/classification/upload"
+import { createStageTimer, logger, type Logger, type StageTimer } from "@/lib/logger"
+import { resolveProviderLabel, taxonomy } from "@/lib/taxonomy"
+
+const REQUEST_ID_HEADER = "X-Request-Id"
+
+interface RequestContext {
+  log: Logger
+  timer: StageTimer
+}
+
+function errorResponse(error: ClassificationError) {
+  const headers: Record<string, string> = {}
+  if (error.retryAfterSeconds !== undefined) {
+    headers["Retry-After"] = String(error.retryAfterSeconds)
+  }
+  return NextResponse.json(error.toJSON(), { status: error.status, headers })
+}
+
+// Callers may pass their own id to correlate logs across services
+function requestIdFor(request: NextRequest) {
+  const incoming = request.headers.get(REQUEST_ID_HEADER)
+  return incoming && /^[\w-]{1,64}$/.test(incoming) ? incoming : randomUUID()
+}
 
 export async function POST(request: NextRequest) {
-  try {
-    const formData = await request.formData()
-    const records = formData.get("records") as string
-
-    // Parse the records to get the base64 image
-    const parsedRecords = JSON.parse(records)
-    const base64Image = parsedRecords[0]._base64
-
-    const ximilarResponse = await fetch("https://api.ximilar.com/recognition/v2/classify/", {
-      method: "POST",
-      headers: {
-        Authorization: `Token ${process.env.XIMILAR_API_TOKEN}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        records: [
-          {
-            _base64: base64Image,
-          },
-        ],
-      }),
+  const requestId = requestIdFor(request)
+  const context: RequestContext = {
+    log: logger.child({ requestId, route: "classify-waste" }),
+    timer: createStageTimer(),
+  }
+
+  // Browsers get an anonymous session cookie for per-session limits; scripts
+  // that don't keep cookies are only limited per IP.
+  const sessionId = request.cookies.get(SESSION_COOKIE)?.value ?? null
+  const response = await handleClassify(request, sessionId, context)
+  response.headers.set(REQUEST_ID_HEADER, requestId)
+  context.log.info("classify request finished", { status: response.status, timings: context.timer.timings() })
+  if (!sessionId) {
+    response.cookies.set(SESSION_COOKIE, randomUUID(), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/api",
+      maxAge: 60 * 60 * 24 * 365,
     })
+  }
+  return response
+}
+
+async function handleClassify(
+  request: NextRequest,
+  sessionId: string | null,
+  context: RequestContext,
+): Promise<NextResponse> {
+  const { log, timer } = context
+  let upload: ClassifyUpload
+  try {
+    checkRequestLimits(clientIp(request.headers), sessionId)
+    upload = await timer.time("parse", () => readClassifyUpload(request))
+  } catch (error) {
+    const classificationError = toClassificationError(error)
+    log.warn("classify request rejected", { code: classificationError.code, reason: classificationError.message })
+    return errorResponse(classificationError)
+  }
+  const { image, mode } = upload
+  log.debug("image received", { mimeType: image.mimeType, base64Length: image.base64.length, mode })
 
-    if (!ximilarResponse.ok) {
-      console.error(`Ximilar API error: ${ximilarResponse.status}`)
-      return NextResponse.json({
-        records: [
-          {
-            outputs: [
-              {
-                label: "plastic_bottle",
-                prob: 0.85,
-              },
-            ],
-          },
-        ],
-      })
+  // Fall through to the fallback provider only when the previous one could not answer
+  let lastError: unknown
+  for (const name of getProviderChain()) {
+    try {
+      return NextResponse.json(await classifyWithCache(getResilientProvider(name), image, mode, context))
+    } catch (error) {
+      lastError = error
+      const { code } = toClassificationError(error)
+      log.error("classification failed", { provider: name, code, error })
+      if (code !== "provider_unavailable" && code !== "timeout") {
+        break
+      }
     }
+  }
+  return errorResponse(toClassificationError(lastError))
+}
 
-    const result = await ximilarResponse.json()
-    console.log("[v0] Ximilar API response:", JSON.stringify(result, null, 2))
-    return NextResponse.json(result)
-  } catch (error) {
-    console.error("Classification error:", error)
-    return NextResponse.json({
-      records: [
-        {
-          outputs: [
-            {
-              label: "general_waste",
-              prob: 0.75,
-            },
-          ],
-        },
-      ],
-    })
+async function classifyWithCache(
+  provider: ClassificationProvider,
+  image: ClassificationImage,
+  mode: ClassifyMode,
+  { log, timer }: RequestContext,
+): Promise<ClassifyResponse> {
+  // Providers without detection answer detect requests with a plain classification
+  const effectiveMode = mode === "detect" && provider.detect ? "detect" : "classify"
+
+  const cache = getResultCache()
+  const cacheKeys = await timer.time("cache", async () =>
+    cache?.keysFor(image, { provider: provider.name, mode: effectiveMode, taxonomyVersion: taxonomy.version }),
+  ).catch((error) => {
+    log.warn("classification cache unavailable", { error })
+    return undefined
+  })
+  const cached = cacheKeys && (await timer.time("cache", async () => cache?.get(cacheKeys)).catch(() => undefined))
+  if (cached) {
+    log.info("served from cache", { provider: provider.name, mode: cached.mode })
+    return { ...cached, cached: true }
+  }
+
+  consumeProviderBudget()
+  const response = await classify(provider, image, effectiveMode, { log, timer })
+  if (cacheKeys) {
+    await cache?.set(cacheKeys, response).catch((error) => log.warn("unable to cache classification", { error }))
+  }
+  return response
+}
+
+// The response mode tells the client which shape it got. Each label or object gets
+// the taxonomy item it resolves to; unknown labels keep itemId null so the client
+// can tell them apart instead of guessing a bin.
+async function classify(
+  provider: ClassificationProvider,
+  image: ClassificationImage,
+  mode: ClassifyMode,
+  { log, timer }: RequestContext,
+): Promise<ClassifyResponse> {
+  const resolveItemId = (label: string) => resolveProviderLabel(label, provider.name)?.id ?? null
+
+  if (mode === "detect" && provider.detect) {
+    const detect = provider.detect
+    const objects = await timer.time("provider", () => detect(image))
+    log.debug("provider answered", { provider: provider.name, mode, objects })
+    if (objects.length === 0) {
+      throw new ClassificationError("no_match", "The provider did not find any objects in the image")
+    }
+
+    return timer.time("mapping", async () => ({
+      provider: provider.name,
+      taxonomyVersion: taxonomy.version,
+      cached: false,
+      mode: "detect" as const,
+      objects: objects.map((object) => ({ ...object, itemId: resolveItemId(object.label) })),
+    }))
+  }
+
+  const labels = await timer.time("provider", () => provider.classify(image))
+  log.debug("provider answered", { provider: provider.name, mode, labels })
+  if (labels.length === 0) {
+    throw new ClassificationError("no_match", "The provider did not recognise anything in the image")
   }
+
+  return timer.time("mapping", async () => ({
+    provider: provider.name,
+    taxonomyVersion: taxonomy.version,
+    cached: false,
+    mode: "classify" as const,
+    labels: labels.map((label) => ({ ...label, itemId: resolveItemId(label.label) })),
+  }))
 }
@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { envNumber } from "@/lib/classification/env"
+import { SESSION_COOKIE, clientIp, createDailyBudget, createRequestLimits } from "@/lib/classification/rate-limit"
+import { detectImageType } from "@/lib/classification/upload"
+import { MAX_FEEDBACK_BODY_BYTES, feedbackSchema } from "@/lib/feedback/schema"
+import { saveFeedback } from "@/lib/feedback/store"
+import { logger } from "@/lib/logger"
+import { getTaxonomyItem } from "@/lib/taxonomy"
+
+// Corrections follow a classification, so a session needs far fewer of them
+const feedbackLimits = createRequestLimits("FEEDBACK", { ipLimit: 20, sessionLimit: 5, windowSeconds: 60 })
+// Every stored correction writes an image to disk, so the total per UTC day is capped too
+const FEEDBACK_DAILY_LIMIT = envNumber("FEEDBACK_DAILY_LIMIT", 500)
+const feedbackBudget = FEEDBACK_DAILY_LIMIT > 0 ? createDailyBudget(FEEDBACK_DAILY_LIMIT) : null
+
+function errorResponse(status: number, code: string, message: string, headers?: Record<string, string>) {
+  return NextResponse.json({ error: { code, message } }, { status, headers })
+}
+
+function invalid(message: string) {
+  return errorResponse(400, "invalid_feedback", message)
+}
+
+function tooMany(message: string, retryAfterSeconds: number) {
+  return errorResponse(429, "rate_limited", message, { "Retry-After": String(retryAfterSeconds) })
+}
+
+export async function POST(request: NextRequest) {
+  // The app only sends corrections for photos it classified, and the classify route
+  // hands out the session cookie, so requests without one are not from the app
+  const sessionId = request.cookies.get(SESSION_COOKIE)?.value
+  if (!sessionId) {
+    return errorResponse(403, "missing_session", "Corrections are only accepted from the app")
+  }
+  const limit = feedbackLimits.check(clientIp(request.headers), sessionId)
+  if (!limit.allowed) {
+    return tooMany("Too many corrections; please wait before trying again", limit.retryAfterSeconds)
+  }
+
+  // Checked before reading so an oversized body is never buffered
+  const declaredLength = Number(request.headers.get("content-length"))
+  if (!declaredLength) {
+    return errorResponse(411, "invalid_feedback", "A Content-Length header is required")
+  }
+  if (declaredLength > MAX_FEEDBACK_BODY_BYTES) {
+    return errorResponse(413, "invalid_feedback", `The request body must be at most ${MAX_FEEDBACK_BODY_BYTES} bytes`)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return invalid("The request body must be JSON")
+  }
+
+  const parsed = feedbackSchema.safeParse(body)
+  if (!parsed.success) {
+    return invalid(parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "))
+  }
+  if (!getTaxonomyItem(parsed.data.correctedItemId)) {
+    return invalid(`Unknown taxonomy item "${parsed.data.correctedItemId}"`)
+  }
+  // Only the first bytes are needed to recognise the file signature
+  const mimeType = detectImageType(new Uint8Array(Buffer.from(parsed.data.image.slice(0, 24), "base64")))
+  if (!mimeType) {
+    return errorResponse(415, "unsupported_media_type", "Only JPEG, PNG and WebP images are accepted")
+  }
+
+  // Counted only for corrections that are actually stored
+  const budget = feedbackBudget?.hit("daily")
+  if (budget && !budget.allowed) {
+    return tooMany("No more corrections are accepted today", budget.retryAfterSeconds)
+  }
+
+  try {
+    const id = await saveFeedback(parsed.data, mimeType)
+    return NextResponse.json({ id }, { status: 201 })
+  } catch (error) {
+    logger.error("feedback storage failed", { route: "feedback", error })
+    return errorResponse(503, "storage_unavailable", "Feedback could not be stored")
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getProviderStatuses } from "@/lib/classification"
+import { taxonomy } from "@/lib/taxonomy"
+import packageJson from "@/package.json"
+
+// Never prerendered: provider state changes while the server runs
+export const dynamic = "force-dynamic"
+
+// For uptime checks: answers 503 when no provider in the chain can take requests,
+// and reports "degraded" when only the fallback can.
+export function GET() {
+  const providers = getProviderStatuses()
+  const usable = providers.filter(
+    (provider) => provider.role !== null && provider.configured && provider.circuit.state !== "open",
+  )
+  const status =
+    usable.length === 0 ? "down" : usable.some((provider) => provider.role === "primary") ? "ok" : "degraded"
+
+  return NextResponse.json(
+    {
+      status,
+      version: packageJson.version,
+      taxonomyVersion: taxonomy.version,
+      ximilarTokenPresent: Boolean(process.env.XIMILAR_API_TOKEN),
+      providers,
+      checkedAt: new Date().toISOString(),
+    },
+    { status: status === "down" ? 503 : 200, headers: { "Cache-Control": "no-store" } },
+  )
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Clock, MapPin, Trash2 } from "lucide-react";
+import { showErrorToast } from "@/components/error-notice";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getClassificationColor } from "@/components/waste-category";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { HISTORY_ERRORS } from "@/lib/errors";
+import {
+  clearScans,
+  deleteScan,
+  listScans,
+  type ScanRecord,
+} from "@/lib/history";
+import { logger } from "@/lib/logger";
+import {
+  CATEGORY_INFO,
+  WASTE_CATEGORIES,
+  type WasteCategory,
+} from "@/lib/taxonomy";
+
+const PAGE_SIZE = 10;
+const ALL_CATEGORIES = "all";
+
+// <input type="date"> values are local calendar days
+const startOfDay = (value: string) =>
+  value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const endOfDay = (value: string) =>
+  value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+const describeScan = (scan: ScanRecord) =>
+  scan.results.map((result) => result.item).join(", ") || "Unclassified scan";
+
+const scanCategories = (scan: ScanRecord) =>
+  Array.from(new Set(scan.results.map((result) => result.type)));
+
+export default function HistoryPage() {
+  const [scans, setScans] = useState<ScanRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [category, setCategory] = useState<WasteCategory | typeof ALL_CATEGORIES>(
+    ALL_CATEGORIES
+  );
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [page, setPage] = useState(1);
+
+  const loadScans = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setScans(
+        await listScans({
+          category: category === ALL_CATEGORIES ? undefined : category,
+          from: startOfDay(fromDate),
+          to: endOfDay(toDate),
+        })
+      );
+    } catch (error) {
+      logger.error("unable to load scan history", { error });
+      setScans([]);
+    }
+    setIsLoading(false);
+  }, [category, fromDate, toDate]);
+
+  useEffect(() => {
+    loadScans();
+    setPage(1);
+  }, [loadScans]);
+
+  // Pending rows turn into results as the offline queue drains
+  useOfflineQueue(loadScans);
+
+  const pageCount = Math.max(1, Math.ceil(scans.length / PAGE_SIZE));
+  const pageScans = useMemo(
+    () => scans.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+    [scans, page]
+  );
+
+  // Deleting the last entry on the final page should not leave an empty page
+  useEffect(() => {
+    if (page > pageCount) {
+      setPage(pageCount);
+    }
+  }, [page, pageCount]);
+
+  const removeScan = useCallback(
+    async (id: string) => {
+      try {
+        await deleteScan(id);
+      } catch (error) {
+        logger.error("unable to delete scan", { error });
+        showErrorToast(HISTORY_ERRORS.delete_failed, () => removeScan(id));
+        return;
+      }
+      await loadScans();
+    },
+    [loadScans]
+  );
+
+  const removeAll = useCallback(async () => {
+    try {
+      await clearScans();
+    } catch (error) {
+      logger.error("unable to clear scan history", { error });
+      showErrorToast(HISTORY_ERRORS.clear_failed, removeAll);
+      return;
+    }
+    await loadScans();
+  }, [loadScans]);
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(target, 1), pageCount));
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/" aria-label="Back to scanner">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">
+                Scan History
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Saved on this device only
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl space-y-4">
+        <Card>
+          <CardContent className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="category-filter">Category</Label>
+              <Select
+                value={category}
+                onValueChange={(value) =>
+                  setCategory(value as WasteCategory | typeof ALL_CATEGORIES)
+                }
+              >
+                <SelectTrigger id="category-filter" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {WASTE_CATEGORIES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {CATEGORY_INFO[value].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="from-date">From</Label>
+              <Input
+                id="from-date"
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(event) => setFromDate(event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="to-date">To</Label>
+              <Input
+                id="to-date"
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(event) => setToDate(event.target.value)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="space-y-4">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Loading history...
+              </p>
+            ) : scans.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No scans match these filters yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Photo</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Scanned</TableHead>
+                    <TableHead className="sr-only">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pageScans.map((scan) => (
+                    <TableRow key={scan.id}>
+                      <TableCell>
+                        <img
+                          src={scan.thumbnail}
+                          alt={describeScan(scan)}
+                          className="h-12 w-12 rounded object-cover"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{describeScan(scan)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {scan.status === "pending"
+                            ? "Waiting for a connection"
+                            : scan.status === "failed"
+                              ? "Couldn't be classified"
+                              : scan.results.length > 1
+                            ? `${scan.results.length} items`
+                            : scan.results[0]?.source === "manual"
+                              ? "Selected manually"
+                              : `${scan.results[0]?.confidence}% confidence`}
+                          {scan.corrections.length > 0 && " • corrected"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {scan.status === "pending" && (
+                            <Badge
+                              variant="outline"
+                              className="bg-yellow-100 text-yellow-800 border-yellow-300"
+                            >
+                              <Clock className="h-3 w-3" />
+                              Pending
+                            </Badge>
+                          )}
+                          {scanCategories(scan).map((type) => (
+                            <Badge
+                              key={type}
+                              variant="outline"
+                              className={getClassificationColor(type)}
+                            >
+                              {CATEGORY_INFO[type].label}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {new Date(scan.createdAt).toLocaleString()}
+                        {scan.location && (
+                          <a
+                            href={`https://www.openstreetmap.org/?mlat=${scan.location.latitude}&mlon=${scan.location.longitude}#map=17/${scan.location.latitude}/${scan.location.longitude}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="flex items-center gap-1 underline"
+                          >
+                            <MapPin className="h-3 w-3" />
+                            Location
+                          </a>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Delete ${describeScan(scan)} scan`}
+                          onClick={() => removeScan(scan.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {pageCount > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      onClick={goToPage(page - 1)}
+                      aria-disabled={page === 1}
+                    />
+                  </PaginationItem>
+                  {Array.from({ length: pageCount }, (_, index) => index + 1).map(
+                    (target) => (
+                      <PaginationItem key={target}>
+                        <PaginationLink
+                          href="#"
+                          isActive={target === page}
+                          onClick={goToPage(target)}
+                        >
+                          {target}
+                        </PaginationLink>
+                      </PaginationItem>
+                    )
+                  )}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      onClick={goToPage(page + 1)}
+                      aria-disabled={page === pageCount}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </CardContent>
+        </Card>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="outline"
+              className="w-full text-red-700 border-red-200"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete All History
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete all scans?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This removes every saved photo and result from this device. It
+                cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep History</AlertDialogCancel>
+              <AlertDialogAction onClick={removeAll}>
+                Delete Everything
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </main>
+    </div>
+  );
+}
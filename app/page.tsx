@@ -1,6 +1,7 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useCallback } from "react";
+import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -9,360 +10,388 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
-import { Camera, Leaf, Trash2, Recycle, RotateCcw, Zap } from "lucide-react";
-
-type WasteClassification = "biodegradable" | "non-biodegradable" | "recyclable";
-
-interface ClassificationResult {
-  type: WasteClassification;
-  confidence: number;
-  item: string;
-  tips: string;
-}
+import {
+  Camera,
+  Check,
+  CloudOff,
+  History,
+  Leaf,
+  Pause,
+  RotateCcw,
+  Zap,
+} from "lucide-react";
+import {
+  ClassificationFailurePanel,
+  type ClassificationFailure,
+} from "@/components/classification-failure";
+import { CameraControls } from "@/components/camera-controls";
+import { CameraErrorPanel } from "@/components/camera-error-panel";
+import { ClassificationResultCard } from "@/components/classification-result-card";
+import { DetectionOverlay } from "@/components/detection-overlay";
+import { showErrorToast } from "@/components/error-notice";
+import { ImageDropZone, UploadPhotoButton } from "@/components/image-upload";
+import { LiveGuessOverlay } from "@/components/live-guess-overlay";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { SettingsDialog } from "@/components/settings-dialog";
+import { useCameraSession } from "@/hooks/use-camera-session";
+import { useImagePaste } from "@/hooks/use-image-paste";
+import {
+  useLiveClassification,
+  type LiveGuess,
+} from "@/hooks/use-live-classification";
+import { useLocality } from "@/hooks/use-locality";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useSaveLocation } from "@/hooks/use-save-location";
+import { CameraError } from "@/lib/camera";
+import { blobToDataUrl, ImageFileError } from "@/lib/capture";
+import { encodeImageFile } from "@/lib/capture/file";
+import {
+  ClassifyRequestError,
+  requestClassification,
+} from "@/lib/classification/client";
+import {
+  toResult,
+  type ClassificationResult,
+} from "@/lib/classification/result";
+import { recordCorrection } from "@/lib/feedback/client";
+import type { FeedbackMethod } from "@/lib/feedback/schema";
+import {
+  CAMERA_ERRORS,
+  CLASSIFICATION_ERRORS,
+  IMAGE_FILE_ERRORS,
+} from "@/lib/errors";
+import { addScan, updateScan } from "@/lib/history";
+import { queueScan } from "@/lib/history/queue";
+import { getCurrentLocation } from "@/lib/history/location";
+import { createThumbnail } from "@/lib/history/thumbnail";
+import { logger } from "@/lib/logger";
+import {
+  getTaxonomyItem,
+  type ClarificationOutcome,
+  type ClarificationStep,
+  type TaxonomyItem,
+} from "@/lib/taxonomy";
+
+// Demo results are only offered when explicitly enabled for presentations or
+// local development without a provider; they are never used as a silent fallback.
+const DEMO_MODE = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+const DEMO_RESULTS: { itemId: string; confidence: number }[] = [
+  { itemId: "food_waste", confidence: 92 },
+  { itemId: "plastic_bottle", confidence: 88 },
+  { itemId: "styrofoam", confidence: 95 },
+];
 
 export default function TaponTamaApp() {
-  const [isCapturing, setIsCapturing] = useState(false);
-  const [isInitializingCamera, setIsInitializingCamera] = useState(false);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
-  const [classification, setClassification] =
-    useState<ClassificationResult | null>(null);
+  const [classifications, setClassifications] = useState<
+    ClassificationResult[]
+  >([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const [classificationError, setClassificationError] =
+    useState<ClassificationFailure | null>(null);
+  const [localityId, setLocalityId] = useLocality();
+  const [saveLocation, setSaveLocation] = useSaveLocation();
+  const [currentScanId, setCurrentScanId] = useState<string | null>(null);
+  const [isQueuedOffline, setIsQueuedOffline] = useState(false);
+  const { pendingCount, refreshCount: refreshPendingCount } = useOfflineQueue();
+  const camera = useCameraSession();
+  // The preview stays up while the tab is hidden so it resumes where it was
+  const isCapturing =
+    camera.status === "active" || camera.status === "paused";
+  const isInitializingCamera = camera.status === "starting";
+  const [isLiveMode, setIsLiveMode] = useState(false);
+  // Live guess the user stopped on, waiting to be confirmed
+  const [frozenGuess, setFrozenGuess] = useState<LiveGuess | null>(null);
+  const [isFreezing, setIsFreezing] = useState(false);
+  const live = useLiveClassification({
+    enabled: camera.status === "active" && isLiveMode && !frozenGuess,
+    captureFrame: camera.captureFrame,
+  });
+
+  // Every real result is kept on-device; demo results are never recorded
+  const describeCapture = useCallback(
+    async (imageData: string) => {
+      const [thumbnail, coords] = await Promise.all([
+        createThumbnail(imageData),
+        saveLocation ? getCurrentLocation() : Promise.resolve(undefined),
+      ]);
+      const location = coords && {
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        accuracy: coords.accuracy,
+      };
+      return { thumbnail, location };
+    },
+    [saveLocation]
+  );
 
-  const startCamera = useCallback(async () => {
-    setIsInitializingCamera(true);
+  const recordScan = useCallback(
+    async (imageData: string, results: ClassificationResult[]) => {
+      try {
+        const record = await addScan({
+          ...(await describeCapture(imageData)),
+          results,
+        });
+        setCurrentScanId(record.id);
+      } catch (error) {
+        logger.error("unable to save scan to history", { error });
+      }
+    },
+    [describeCapture]
+  );
 
-    try {
-      // Check if getUserMedia is supported
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        alert(
-          "Camera is not supported in this browser. Please use a modern browser like Chrome, Firefox, or Safari."
-        );
-        setIsInitializingCamera(false);
-        return;
+  // Offline captures go to the on-device queue and are classified on reconnect
+  const queueForLater = useCallback(
+    async (imageData: string) => {
+      try {
+        const { thumbnail, location } = await describeCapture(imageData);
+        await queueScan(imageData, thumbnail, location);
+        setIsQueuedOffline(true);
+        refreshPendingCount();
+      } catch (error) {
+        logger.error("unable to queue scan", { error });
+        setClassificationError({
+          code: "provider_unavailable",
+          message: "Could not reach the classification service",
+        });
       }
+    },
+    [describeCapture, refreshPendingCount]
+  );
 
-      // Request camera permission with detailed constraints
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: "environment", // Use back camera on mobile
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-        },
-      });
+  const analyzeWaste = useCallback(async (imageData: string) => {
+    setIsAnalyzing(true);
+    setClassifications([]);
+    setClassificationError(null);
+    setCurrentScanId(null);
+    setIsQueuedOffline(false);
 
-      streamRef.current = stream;
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-
-        // Simpler approach: set both states immediately and let video load
-        console.log("Stream assigned to video element");
-        setIsCapturing(true);
-        setIsInitializingCamera(false);
-
-        // Log when video actually starts playing
-        videoRef.current.onloadedmetadata = () => {
-          console.log(
-            "Video metadata loaded - dimensions:",
-            videoRef.current?.videoWidth,
-            "x",
-            videoRef.current?.videoHeight
-          );
-        };
-
-        videoRef.current.onplay = () => {
-          console.log("Video started playing");
-        };
+    try {
+      if (!navigator.onLine) {
+        throw new ClassifyRequestError(
+          "provider_unavailable",
+          "The device is offline",
+          { offline: true }
+        );
       }
+      const results = await requestClassification(imageData);
+      setClassifications(results);
+      recordScan(imageData, results);
     } catch (error) {
-      console.error("Error accessing camera:", error);
-
-      // Provide specific error messages based on error type
-      if (error instanceof Error) {
-        switch (error.name) {
-          case "NotAllowedError":
-            alert(
-              "Camera access was denied. Please allow camera permissions and try again."
-            );
-            break;
-          case "NotFoundError":
-            alert("No camera found on this device.");
-            break;
-          case "NotSupportedError":
-            alert("Camera is not supported in this browser.");
-            break;
-          case "OverconstrainedError":
-            alert(
-              "Camera constraints could not be satisfied. Trying with basic settings..."
-            );
-            // Fallback with simpler constraints
-            try {
-              const fallbackStream = await navigator.mediaDevices.getUserMedia({
-                video: true,
-              });
-              streamRef.current = fallbackStream;
-              if (videoRef.current) {
-                videoRef.current.srcObject = fallbackStream;
-                videoRef.current.onloadedmetadata = () => {
-                  setIsCapturing(true);
-                };
-              }
-            } catch (fallbackError) {
-              alert("Unable to access camera even with basic settings.");
-              setIsInitializingCamera(false);
-            }
-            break;
-          default:
-            alert(
-              `Unable to access camera: ${error.message}. Please ensure you have granted camera permissions and are using HTTPS.`
-            );
-            setIsInitializingCamera(false);
-        }
+      logger.error("unable to classify the photo", {
+        error,
+        requestId:
+          error instanceof ClassifyRequestError ? error.requestId : undefined,
+      });
+      if (error instanceof ClassifyRequestError && error.offline) {
+        await queueForLater(imageData);
+      } else if (error instanceof ClassifyRequestError) {
+        setClassificationError({
+          code: error.code,
+          message: error.message,
+          retryAfterSeconds: error.retryAfterSeconds,
+        });
       } else {
-        alert(
-          "Unable to access camera. Please ensure you have granted camera permissions."
-        );
-        setIsInitializingCamera(false);
+        setClassificationError({
+          code: "provider_unavailable",
+          message: "Could not reach the classification service",
+        });
       }
     }
-    setIsInitializingCamera(false);
-  }, []);
-
-  const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
-    }
-    setIsCapturing(false);
-    setIsInitializingCamera(false);
-  }, []);
 
-  const captureImage = useCallback(() => {
-    if (videoRef.current && canvasRef.current) {
-      const canvas = canvasRef.current;
-      const video = videoRef.current;
-      const context = canvas.getContext("2d");
+    setIsAnalyzing(false);
+  }, [recordScan, queueForLater]);
+
+  const analyzeBlob = useCallback(
+    async (blob: Blob) => {
+      const imageDataUrl = await blobToDataUrl(blob);
+      setCapturedImage(imageDataUrl);
+      // Results replace the preview, so there is no reason to keep the camera on
+      camera.stop();
+      analyzeWaste(imageDataUrl);
+    },
+    [camera, analyzeWaste]
+  );
 
-      if (video.videoWidth === 0 || video.videoHeight === 0) {
-        alert("Video is not ready yet. Please wait and try again.");
+  const captureImage = useCallback(async () => {
+    let blob: Blob;
+    try {
+      // Downscaled and encoded off the main thread, sized for the connection
+      blob = await camera.captureFrame();
+    } catch (error) {
+      if (error instanceof CameraError) {
+        showErrorToast(CAMERA_ERRORS[error.code]);
+      }
+      return;
+    }
+    analyzeBlob(blob);
+  }, [camera, analyzeBlob]);
+
+  // Uploaded, dropped and pasted photos go through the same encoding as captures
+  const analyzeFile = useCallback(
+    async (file: File) => {
+      let blob: Blob;
+      try {
+        ({ blob } = await encodeImageFile(file));
+      } catch (error) {
+        logger.warn("unable to read the photo", { error });
+        showErrorToast(
+          IMAGE_FILE_ERRORS[
+            error instanceof ImageFileError ? error.code : "unreadable"
+          ]
+        );
         return;
       }
+      analyzeBlob(blob);
+    },
+    [analyzeBlob]
+  );
 
-      if (context) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-
-        context.drawImage(video, 0, 0);
+  useImagePaste(analyzeFile, !isAnalyzing);
 
-        const imageDataUrl = canvas.toDataURL("image/jpeg", 0.8);
-        setCapturedImage(imageDataUrl);
+  const closeCamera = useCallback(() => {
+    setFrozenGuess(null);
+    camera.stop();
+  }, [camera]);
 
-        // ❌ remove this → stopCamera();
-        // ✅ keep camera live until user explicitly cancels or resets
-        analyzeWaste(imageDataUrl);
+  // The latest guess is frozen as-is; before the first answer is in, the
+  // current frame is classified once and frozen with its answer
+  const freezeLiveGuess = useCallback(async () => {
+    if (live.guess) {
+      setFrozenGuess(live.guess);
+      return;
+    }
+    setIsFreezing(true);
+    try {
+      const guess = await live.classifyFrame();
+      if (guess) {
+        setFrozenGuess(guess);
       } else {
-        alert("Unable to get canvas context. Please try again.");
+        showErrorToast(CLASSIFICATION_ERRORS.no_match);
       }
-    } else {
-      alert("Camera or canvas not ready. Please try again.");
+    } catch (error) {
+      logger.warn("unable to classify the frozen frame", { error });
+      if (error instanceof CameraError) {
+        showErrorToast(CAMERA_ERRORS[error.code]);
+      } else {
+        showErrorToast(
+          CLASSIFICATION_ERRORS[
+            error instanceof ClassifyRequestError
+              ? error.code
+              : "provider_unavailable"
+          ]
+        );
+      }
+    } finally {
+      setIsFreezing(false);
     }
-  }, []);
+  }, [live.guess, live.classifyFrame]);
 
-  const analyzeWaste = useCallback(async (imageData: string) => {
-    setIsAnalyzing(true);
+  // The frozen guess becomes the result as-is, without another classification
+  const confirmLiveGuess = useCallback(() => {
+    if (!frozenGuess) {
+      return;
+    }
+    const { frame, result } = frozenGuess;
+    setCapturedImage(frame);
+    setClassificationError(null);
+    setCurrentScanId(null);
+    setIsQueuedOffline(false);
+    setClassifications([result]);
+    recordScan(frame, [result]);
+    closeCamera();
+  }, [frozenGuess, recordScan, closeCamera]);
+
+  const retryAnalysis = useCallback(() => {
+    if (capturedImage) {
+      analyzeWaste(capturedImage);
+    }
+  }, [capturedImage, analyzeWaste]);
+
+  const selectManualItem = useCallback(
+    (item: TaxonomyItem) => {
+      const results = [toResult(item, 100, "manual")];
+      setClassificationError(null);
+      setClassifications(results);
+      if (capturedImage) {
+        recordScan(capturedImage, results);
+      }
+    },
+    [capturedImage, recordScan]
+  );
 
-    try {
-      // Convert base64 to blob for API upload
-      const response = await fetch(imageData);
-      const blob = await response.blob();
-
-      // Create FormData for Ximilar API
-      const formData = new FormData();
-      formData.append(
-        "records",
-        JSON.stringify([
-          {
-            _base64: imageData.split(",")[1], // Remove data:image/jpeg;base64, prefix
-          },
-        ])
+  const correctResult = useCallback(
+    (index: number, item: TaxonomyItem, method: FeedbackMethod) => {
+      const original = classifications[index];
+      const corrected: ClassificationResult = {
+        ...toResult(item, 100, "manual"),
+        box: original.box,
+        pickedFromCandidates: method === "candidate" || undefined,
+      };
+      setClassifications((current) =>
+        current.map((result, i) => (i === index ? corrected : result))
       );
+      if (capturedImage) {
+        recordCorrection({
+          scanId: currentScanId,
+          image: capturedImage,
+          resultIndex: index,
+          original,
+          corrected,
+          method,
+        });
+      }
+    },
+    [classifications, capturedImage, currentScanId]
+  );
 
-      // Call Ximilar API (you'll need to replace with your actual API key and endpoint)
-      const ximilarResponse = await fetch("/api/classify-waste", {
-        method: "POST",
-        body: formData,
+  // Answers only refine the advice for the same item, so they are kept on the
+  // result rather than recorded as a correction
+  const clarifyResult = useCallback(
+    (index: number, steps: ClarificationStep[], outcome: ClarificationOutcome) => {
+      const refine = (result: ClassificationResult) => ({
+        ...result,
+        type: outcome.category ?? result.type,
+        clarification: { steps, outcome },
       });
-
-      if (!ximilarResponse.ok) {
-        throw new Error("Classification failed");
+      setClassifications((current) =>
+        current.map((result, i) => (i === index ? refine(result) : result))
+      );
+      if (currentScanId) {
+        updateScan(currentScanId, (scan) => ({
+          ...scan,
+          results: scan.results.map((result, i) =>
+            i === index ? refine(result) : result
+          ),
+        })).catch((error) =>
+          logger.error("unable to save answers to history", { error })
+        );
       }
+    },
+    [currentScanId]
+  );
 
-      const result = await ximilarResponse.json();
-
-      // Process Ximilar response and map to our waste categories
-      const processedResult = processXimilarResult(result);
-      setClassification(processedResult);
-    } catch (error) {
-      console.error("Error analyzing waste:", error);
-
-      // Fallback to mock results if API fails
-      const mockResults: ClassificationResult[] = [
-        {
-          type: "biodegradable",
-          confidence: 92,
-          item: "Food waste",
-          tips: "Compost this organic material to create nutrient-rich soil for plants!",
-        },
-        {
-          type: "recyclable",
-          confidence: 88,
-          item: "Plastic bottle",
-          tips: "Clean and place in recycling bin. Check local recycling guidelines for proper disposal.",
-        },
-        {
-          type: "non-biodegradable",
-          confidence: 95,
-          item: "Styrofoam container",
-          tips: "This goes to general waste. Consider using reusable containers in the future!",
-        },
-      ];
-
-      const randomResult =
-        mockResults[Math.floor(Math.random() * mockResults.length)];
-      setClassification(randomResult);
+  const showDemoResult = useCallback(() => {
+    const demoResult =
+      DEMO_RESULTS[Math.floor(Math.random() * DEMO_RESULTS.length)];
+    const item = getTaxonomyItem(demoResult.itemId);
+    if (item) {
+      setClassificationError(null);
+      setClassifications([toResult(item, demoResult.confidence, "demo")]);
     }
-
-    setIsAnalyzing(false);
   }, []);
 
-  const processXimilarResult = (ximilarResult: any): ClassificationResult => {
-    const wasteMapping: Record<
-      string,
-      { type: WasteClassification; tips: string }
-    > = {
-      plastic_bottle: {
-        type: "recyclable",
-        tips: "Clean and place in recycling bin. Check local recycling guidelines for proper disposal.",
-      },
-      plastic_bag: {
-        type: "recyclable",
-        tips: "Take to grocery store plastic bag recycling bins. Don't put in curbside recycling.",
-      },
-      paper: {
-        type: "recyclable",
-        tips: "Remove any plastic coating and place in paper recycling bin.",
-      },
-      cardboard: {
-        type: "recyclable",
-        tips: "Flatten and place in cardboard recycling. Remove any tape or staples.",
-      },
-      glass_bottle: {
-        type: "recyclable",
-        tips: "Clean thoroughly and place in glass recycling container.",
-      },
-      aluminum_can: {
-        type: "recyclable",
-        tips: "Clean and place in metal recycling bin. Aluminum cans are highly recyclable!",
-      },
-      food_waste: {
-        type: "biodegradable",
-        tips: "Perfect for composting! Food waste makes excellent fertilizer.",
-      },
-      fruit_peel: {
-        type: "biodegradable",
-        tips: "Compost this organic material to create nutrient-rich soil for plants!",
-      },
-      vegetable_scraps: {
-        type: "biodegradable",
-        tips: "Great for composting! These scraps will decompose naturally.",
-      },
-      styrofoam: {
-        type: "non-biodegradable",
-        tips: "This goes to general waste. Consider using reusable containers in the future!",
-      },
-      electronics: {
-        type: "non-biodegradable",
-        tips: "Take to an e-waste recycling center. Never put electronics in regular trash!",
-      },
-      battery: {
-        type: "non-biodegradable",
-        tips: "Take to battery recycling center. Batteries contain harmful chemicals.",
-      },
-      general_waste: {
-        type: "non-biodegradable",
-        tips: "This item should go in your general waste bin.",
-      },
-    };
-
-    console.log("[v0] Processing Ximilar result:", ximilarResult);
-
-    // Extract the highest confidence prediction from Ximilar response
-    const predictions = ximilarResult.records?.[0]?.outputs || [];
-    console.log("[v0] Predictions found:", predictions);
-
-    const topPrediction = predictions.reduce(
-      (max: any, current: any) =>
-        current.prob > (max?.prob || 0) ? current : max,
-      null
-    );
-
-    console.log("[v0] Top prediction:", topPrediction);
-
-    if (topPrediction) {
-      const category = topPrediction.label.toLowerCase();
-      const mapping = wasteMapping[category] || wasteMapping["general_waste"]; // Default fallback
-
-      return {
-        type: mapping.type,
-        confidence: Math.round(topPrediction.prob * 100),
-        item: topPrediction.label
-          .replace(/_/g, " ")
-          .replace(/\b\w/g, (l: string) => l.toUpperCase()),
-        tips: mapping.tips,
-      };
-    }
-
-    // Fallback if no prediction found
-    return {
-      type: "non-biodegradable",
-      confidence: 50,
-      item: "Unknown item",
-      tips: "Unable to classify this item. Please dispose of it responsibly.",
-    };
-  };
-
   const resetApp = useCallback(() => {
     setCapturedImage(null);
-    setClassification(null);
+    setCurrentScanId(null);
+    setIsQueuedOffline(false);
+    setClassifications([]);
+    setClassificationError(null);
     setIsAnalyzing(false);
-    setIsCapturing(false);
-    setIsInitializingCamera(false);
-  }, []);
-
-  const getClassificationIcon = (type: WasteClassification) => {
-    switch (type) {
-      case "biodegradable":
-        return <Leaf className="h-8 w-8 text-green-600" />;
-      case "recyclable":
-        return <Recycle className="h-8 w-8 text-blue-600" />;
-      case "non-biodegradable":
-        return <Trash2 className="h-8 w-8 text-red-600" />;
-    }
-  };
-
-  const getClassificationColor = (type: WasteClassification) => {
-    switch (type) {
-      case "biodegradable":
-        return "bg-green-100 text-green-800 border-green-200";
-      case "recyclable":
-        return "bg-blue-100 text-blue-800 border-blue-200";
-      case "non-biodegradable":
-        return "bg-red-100 text-red-800 border-red-200";
-    }
-  };
+    closeCamera();
+  }, [closeCamera]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -374,7 +403,7 @@ export default function TaponTamaApp() {
               <div className="flex items-center justify-center w-10 h-10 rounded-full bg-accent">
                 <Leaf className="h-6 w-6 text-accent-foreground" />
               </div>
-              <div>
+              <div className="flex-1">
                 <h1 className="text-2xl font-bold text-foreground">
                   TaponTama
                 </h1>
@@ -382,6 +411,25 @@ export default function TaponTamaApp() {
                   Smart Waste Classification
                 </p>
               </div>
+              <Button variant="ghost" size="icon" className="relative" asChild>
+                <Link href="/history" aria-label="Scan history">
+                  <History className="h-5 w-5" />
+                  {pendingCount > 0 && (
+                    <span
+                      className="absolute -top-1 -right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-yellow-500 px-1 text-[10px] font-semibold text-black"
+                      aria-label={`${pendingCount} scans waiting to be classified`}
+                    >
+                      {pendingCount}
+                    </span>
+                  )}
+                </Link>
+              </Button>
+              <SettingsDialog
+                localityId={localityId}
+                onLocalityChange={setLocalityId}
+                saveLocation={saveLocation}
+                onSaveLocationChange={setSaveLocation}
+              />
             </div>
           </div>
         </header>
@@ -389,81 +437,115 @@ export default function TaponTamaApp() {
 
       {/* Fullscreen camera view */}
       {isCapturing && (
-        <div 
-          className="fixed inset-0 z-50 bg-red-500"
-          style={{ 
-            position: 'fixed',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            width: '100vw',
-            height: '100vh',
-            zIndex: 9999
-          }}
-        >
-          {/* Debug info */}
-          <div className="absolute top-4 left-4 bg-black/80 text-white p-2 rounded text-xs z-50">
-            <div>isCapturing: {isCapturing.toString()}</div>
-            <div>hasStream: {(streamRef.current !== null).toString()}</div>
-            <div>videoSrc: {videoRef.current?.srcObject ? "assigned" : "none"}</div>
-            <div>Container visible: RED BACKGROUND should be visible</div>
-          </div>
-          
+        <div className="fixed inset-0 z-[9999] bg-black">
           <video
-            ref={videoRef}
+            ref={camera.videoRef}
             autoPlay
             playsInline
             muted
-            className="w-full h-full object-cover bg-blue-500"
-            style={{ 
-              width: '100%',
-              height: '100%',
-              objectFit: 'cover',
-              backgroundColor: 'blue'
-            }}
-            onLoadedMetadata={() => {
-              console.log("FULLSCREEN: Video metadata loaded");
-            }}
-            onPlay={() => {
-              console.log("FULLSCREEN: Video started playing");
-            }}
-            onError={(e) => {
-              console.error("FULLSCREEN: Video error:", e);
-            }}
+            className="w-full h-full object-cover"
           />
+          {frozenGuess && (
+            <img
+              src={frozenGuess.frame}
+              alt="Frozen camera frame"
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+          )}
+
+          {isLiveMode && (
+            <div className="absolute top-4 left-4 right-4">
+              <LiveGuessOverlay
+                guess={frozenGuess ?? live.guess}
+                isSearching={!frozenGuess && live.isSearching}
+                localityId={localityId}
+              />
+            </div>
+          )}
 
           {/* Camera controls overlay */}
           <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/80 to-transparent">
             <div className="flex flex-col space-y-4">
+              <div className="flex items-center justify-between gap-4 text-white">
+                <div className="space-y-1">
+                  <Label htmlFor="live-mode" className="text-white">
+                    Live mode
+                  </Label>
+                  <p className="text-xs text-white/70">
+                    Checks what the camera sees every few seconds. Each check
+                    counts toward your scan limit.
+                  </p>
+                </div>
+                <Switch
+                  id="live-mode"
+                  checked={isLiveMode}
+                  onCheckedChange={(checked) => {
+                    setIsLiveMode(checked);
+                    setFrozenGuess(null);
+                  }}
+                />
+              </div>
+              <CameraControls
+                devices={camera.devices}
+                deviceId={camera.deviceId}
+                onDeviceChange={camera.switchDevice}
+                controls={camera.controls}
+                torch={camera.torch}
+                onTorchChange={camera.setTorch}
+                zoom={camera.zoom}
+                onZoomChange={camera.setZoom}
+              />
+              {frozenGuess ? (
+                <>
+                  <Button
+                    onClick={confirmLiveGuess}
+                    className="w-full bg-white text-black hover:bg-gray-200"
+                    size="lg"
+                  >
+                    <Check className="mr-2 h-6 w-6" />
+                    Use This Result
+                  </Button>
+                  <Button
+                    onClick={() => setFrozenGuess(null)}
+                    variant="outline"
+                    className="w-full border-white text-white hover:bg-white/10"
+                  >
+                    Keep Scanning
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {isLiveMode && (
+                    <Button
+                      onClick={freezeLiveGuess}
+                      className="w-full bg-white text-black hover:bg-gray-200"
+                      size="lg"
+                      disabled={isFreezing}
+                    >
+                      <Pause className="mr-2 h-6 w-6" />
+                      {isFreezing ? "Identifying…" : "Freeze"}
+                    </Button>
+                  )}
+                  {/* Freeze is the main action in live mode */}
+                  <Button
+                    onClick={captureImage}
+                    variant={isLiveMode ? "outline" : "default"}
+                    className={
+                      isLiveMode
+                        ? "w-full bg-transparent border-white text-white hover:bg-white/10"
+                        : "w-full bg-white text-black hover:bg-gray-200"
+                    }
+                    size={isLiveMode ? "default" : "lg"}
+                    disabled={camera.status !== "active"}
+                  >
+                    <Camera className="mr-2 h-6 w-6" />
+                    Capture Photo
+                  </Button>
+                </>
+              )}
+
               <Button
-                onClick={captureImage}
-                className="w-full bg-white text-black hover:bg-gray-200"
-                size="lg"
-              >
-                <Camera className="mr-2 h-6 w-6" />
-                Capture Photo
-              </Button>
-              
-              {/* Debug button */}
-              <Button
-                onClick={() => {
-                  console.log("Force play attempt");
-                  if (videoRef.current) {
-                    console.log("Video element exists:", videoRef.current);
-                    console.log("Video srcObject:", videoRef.current.srcObject);
-                    console.log("Video readyState:", videoRef.current.readyState);
-                    videoRef.current.play().catch(e => console.error("Play failed:", e));
-                  }
-                }}
-                className="w-full bg-yellow-500 text-black hover:bg-yellow-400"
-                size="sm"
-              >
-                Force Play
-              </Button>
-              
-              <Button
-                onClick={stopCamera}
+                onClick={closeCamera}
                 variant="outline"
                 className="w-full border-white text-white hover:bg-white/10"
               >
@@ -479,31 +561,51 @@ export default function TaponTamaApp() {
         <main className="container mx-auto px-4 py-8 max-w-md">
           {!capturedImage && !isInitializingCamera && (
             <div className="space-y-6">
-              <Card>
-                <CardHeader className="text-center">
-                  <CardTitle className="text-xl">Identify Your Waste</CardTitle>
-                  <CardDescription>
-                    Use your camera to classify waste as biodegradable,
-                    recyclable, or non-biodegradable
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex justify-center">
-                    <div className="w-32 h-32 rounded-full bg-accent/10 flex items-center justify-center">
-                      <Camera className="h-16 w-16 text-accent" />
-                    </div>
-                  </div>
-                  <Button
-                    onClick={startCamera}
-                    className="w-full bg-accent hover:bg-accent/90 text-accent-foreground"
-                    size="lg"
-                    disabled={isInitializingCamera}
-                  >
-                    <Camera className="mr-2 h-5 w-5" />
-                    Start Camera
-                  </Button>
-                </CardContent>
-              </Card>
+              <ImageDropZone onImage={analyzeFile}>
+                {camera.status === "error" && camera.error ? (
+                  <Card>
+                    <CardContent>
+                      <CameraErrorPanel
+                        error={camera.error}
+                        onRetry={camera.start}
+                      >
+                        <UploadPhotoButton onImage={analyzeFile} />
+                      </CameraErrorPanel>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <Card>
+                    <CardHeader className="text-center">
+                      <CardTitle className="text-xl">Identify Your Waste</CardTitle>
+                      <CardDescription>
+                        Use your camera or a photo to sort waste into
+                        biodegradable, recyclable, residual, hazardous, e-waste,
+                        reusable or medical waste
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="flex justify-center">
+                        <div className="w-32 h-32 rounded-full bg-accent/10 flex items-center justify-center">
+                          <Camera className="h-16 w-16 text-accent" />
+                        </div>
+                      </div>
+                      <Button
+                        onClick={camera.start}
+                        className="w-full bg-accent hover:bg-accent/90 text-accent-foreground"
+                        size="lg"
+                        disabled={isInitializingCamera}
+                      >
+                        <Camera className="mr-2 h-5 w-5" />
+                        Start Camera
+                      </Button>
+                      <UploadPhotoButton onImage={analyzeFile} />
+                      <p className="hidden text-center text-xs text-muted-foreground sm:block">
+                        You can also drop or paste a photo here
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </ImageDropZone>
 
               <Card>
                 <CardHeader>
@@ -523,7 +625,7 @@ export default function TaponTamaApp() {
                       2
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      Capture the image
+                      Capture or upload a photo
                     </p>
                   </div>
                   <div className="flex items-center gap-3">
@@ -559,49 +661,14 @@ export default function TaponTamaApp() {
             </div>
           )}
 
-          {isCapturing && (
-            <div className="space-y-4">
-              <Card>
-                <CardContent className="p-0">
-                  <div className="relative">
-                    <video
-                      ref={videoRef}
-                      autoPlay
-                      playsInline
-                      muted
-                      className="w-full h-80 object-cover rounded-t-lg bg-black"
-                    />
-                  </div>
-                  <div className="p-4 space-y-3">
-                    <Button
-                      onClick={captureImage}
-                      className="w-full bg-accent hover:bg-accent/90 text-accent-foreground"
-                      size="lg"
-                    >
-                      <Camera className="mr-2 h-5 w-5" />
-                      Capture Photo
-                    </Button>
-                    <Button
-                      onClick={stopCamera}
-                      variant="outline"
-                      className="w-full"
-                    >
-                      Cancel
-                    </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
-          )}
-
           {capturedImage && (
             <div className="space-y-4">
               <Card>
                 <CardContent className="p-0">
-                  <img
+                  <DetectionOverlay
                     src={capturedImage || "/placeholder.svg"}
-                    alt="Captured waste"
-                    className="w-full h-64 object-cover rounded-t-lg"
+                    results={classifications}
+                    localityId={localityId}
                   />
                   <div className="p-4">
                     {isAnalyzing ? (
@@ -611,46 +678,73 @@ export default function TaponTamaApp() {
                           Analyzing waste with AI...
                         </p>
                       </div>
-                    ) : classification ? (
+                    ) : classifications.length > 0 ? (
                       <div className="space-y-4">
-                        <div className="flex items-center gap-3">
-                          {getClassificationIcon(classification.type)}
-                          <div>
-                            <h3 className="font-semibold text-lg capitalize">
-                              {classification.type.replace("-", " ")}
-                            </h3>
-                            <p className="text-sm text-muted-foreground">
-                              {classification.item} •{" "}
-                              {classification.confidence}% confidence
-                            </p>
+                        {classifications.map((result, index) => (
+                          <div
+                            key={index}
+                            className={index > 0 ? "border-t pt-4" : undefined}
+                          >
+                            <ClassificationResultCard
+                              result={result}
+                              localityId={localityId}
+                              marker={
+                                classifications.length > 1
+                                  ? index + 1
+                                  : undefined
+                              }
+                              onCorrect={
+                                result.source === "demo"
+                                  ? undefined
+                                  : (item, method) =>
+                                      correctResult(index, item, method)
+                              }
+                              onClarify={(steps, outcome) =>
+                                clarifyResult(index, steps, outcome)
+                              }
+                            />
                           </div>
-                        </div>
+                        ))}
 
-                        <Badge
-                          className={`${getClassificationColor(
-                            classification.type
-                          )} px-3 py-1`}
+                        <Button
+                          onClick={resetApp}
                           variant="outline"
+                          className="w-full bg-transparent"
                         >
-                          {classification.type.replace("-", " ").toUpperCase()}
-                        </Badge>
-
-                        <div className="bg-muted p-3 rounded-lg">
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Analyze Another Item
+                        </Button>
+                      </div>
+                    ) : isQueuedOffline ? (
+                      <div className="space-y-4 text-center">
+                        <CloudOff className="h-8 w-8 mx-auto text-muted-foreground" />
+                        <div>
+                          <h3 className="font-semibold text-lg">
+                            Saved for later
+                          </h3>
                           <p className="text-sm text-muted-foreground">
-                            💡 <strong>Disposal Tip:</strong>{" "}
-                            {classification.tips}
+                            You&apos;re offline. We&apos;ll classify this photo
+                            automatically when you&apos;re back online and the
+                            result will appear in your history.
                           </p>
                         </div>
-
                         <Button
                           onClick={resetApp}
                           variant="outline"
                           className="w-full bg-transparent"
                         >
                           <RotateCcw className="mr-2 h-4 w-4" />
-                          Analyze Another Item
+                          Scan Another Item
                         </Button>
                       </div>
+                    ) : classificationError ? (
+                      <ClassificationFailurePanel
+                        failure={classificationError}
+                        onRetry={retryAnalysis}
+                        onSelectItem={selectManualItem}
+                        onShowDemo={DEMO_MODE ? showDemoResult : undefined}
+                        onReset={resetApp}
+                      />
                     ) : null}
                   </div>
                 </CardContent>
@@ -658,7 +752,6 @@ export default function TaponTamaApp() {
             </div>
           )}
 
-          <canvas ref={canvasRef} className="hidden" />
         </main>
       )}
     </div>
@@ -0,0 +1,101 @@
+"use client";
+
+import { Flashlight, FlashlightOff, ZoomIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import type { TrackControls, VideoInput } from "@/lib/camera";
+
+interface CameraControlsProps {
+  devices: VideoInput[];
+  deviceId?: string;
+  onDeviceChange: (deviceId: string) => void;
+  // Capabilities of the open track; controls it lacks are hidden
+  controls: TrackControls;
+  torch: boolean;
+  onTorchChange: (enabled: boolean) => void;
+  zoom?: number;
+  onZoomChange: (zoom: number) => void;
+}
+
+export function CameraControls({
+  devices,
+  deviceId,
+  onDeviceChange,
+  controls,
+  torch,
+  onTorchChange,
+  zoom,
+  onZoomChange,
+}: CameraControlsProps) {
+  const zoomRange = controls.zoom;
+
+  return (
+    <div className="space-y-3 text-white">
+      {(devices.length > 1 || controls.torch) && (
+        <div className="flex items-center gap-2">
+          {devices.length > 1 && (
+            <Select value={deviceId} onValueChange={onDeviceChange}>
+              <SelectTrigger
+                aria-label="Camera"
+                className="flex-1 min-w-0 border-white/40 bg-black/40 text-white"
+              >
+                <SelectValue placeholder="Choose camera" />
+              </SelectTrigger>
+              {/* Above the fullscreen camera view */}
+              <SelectContent className="z-[10000]">
+                {devices.map((device) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {device.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {controls.torch && (
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label={torch ? "Turn flashlight off" : "Turn flashlight on"}
+              aria-pressed={torch}
+              onClick={() => onTorchChange(!torch)}
+              className={
+                torch
+                  ? "ml-auto bg-yellow-400 text-black border-yellow-400 hover:bg-yellow-300"
+                  : "ml-auto bg-black/40 text-white border-white/40 hover:bg-white/10"
+              }
+            >
+              {torch ? (
+                <Flashlight className="h-5 w-5" />
+              ) : (
+                <FlashlightOff className="h-5 w-5" />
+              )}
+            </Button>
+          )}
+        </div>
+      )}
+      {zoomRange && (
+        <div className="flex items-center gap-3">
+          <ZoomIn className="h-4 w-4 shrink-0" />
+          <Slider
+            aria-label="Zoom"
+            min={zoomRange.min}
+            max={zoomRange.max}
+            step={zoomRange.step}
+            value={[zoom ?? zoomRange.min]}
+            onValueChange={([value]) => onZoomChange(value)}
+          />
+          <span className="w-10 text-right text-xs tabular-nums">
+            {(zoom ?? zoomRange.min).toFixed(1)}×
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
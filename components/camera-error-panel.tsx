@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ErrorPanel } from "@/components/error-notice";
+import type { CameraError } from "@/lib/camera";
+import {
+  CAMERA_ERRORS,
+  cameraPermissionSteps,
+  detectBrowser,
+  type BrowserFamily,
+} from "@/lib/errors";
+
+interface CameraErrorPanelProps {
+  error: CameraError;
+  onRetry: () => void;
+  children?: React.ReactNode;
+}
+
+export function CameraErrorPanel({
+  error,
+  onRetry,
+  children,
+}: CameraErrorPanelProps) {
+  const [browser, setBrowser] = useState<BrowserFamily>("other");
+
+  useEffect(() => {
+    setBrowser(detectBrowser(navigator.userAgent, navigator.maxTouchPoints));
+  }, []);
+
+  return (
+    <ErrorPanel entry={CAMERA_ERRORS[error.code]} onRetry={onRetry}>
+      {error.code === "permission_denied" && (
+        <div className="bg-muted p-3 rounded-lg">
+          <p className="text-sm font-medium">To turn the camera back on:</p>
+          <ol className="mt-2 list-decimal list-inside space-y-1 text-sm text-muted-foreground">
+            {cameraPermissionSteps(browser).map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {children}
+    </ErrorPanel>
+  );
+}
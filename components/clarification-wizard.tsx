@@ -0,0 +1,82 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  walkClarification,
+  type ClarificationOutcome,
+  type ClarificationStep,
+  type TaxonomyItem,
+} from "@/lib/taxonomy";
+
+interface ClarificationWizardProps {
+  item: TaxonomyItem;
+  // Called once the answers reach the end of the questions, or on skip with
+  // whatever was answered so far
+  onComplete: (steps: ClarificationStep[], outcome: ClarificationOutcome) => void;
+}
+
+export function ClarificationWizard({
+  item,
+  onComplete,
+}: ClarificationWizardProps) {
+  const [steps, setSteps] = useState<ClarificationStep[]>([]);
+  const progress = walkClarification(item, steps);
+  const question = progress.question;
+  if (!question) {
+    return null;
+  }
+
+  const answer = (answerId: string) => {
+    const next = [...progress.steps, { questionId: question.id, answerId }];
+    const nextProgress = walkClarification(item, next);
+    if (nextProgress.question) {
+      setSteps(next);
+    } else {
+      onComplete(nextProgress.steps, nextProgress.outcome);
+    }
+  };
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 p-3 rounded-lg space-y-2">
+      <p className="text-xs font-medium uppercase text-blue-700">
+        Quick question {progress.steps.length + 1}
+      </p>
+      <p className="text-sm font-medium text-blue-900">{question.text}</p>
+      <div className="grid gap-2">
+        {question.answers.map((option) => (
+          <Button
+            key={option.id}
+            variant="outline"
+            className="justify-start bg-white whitespace-normal h-auto py-2 text-left"
+            onClick={() => answer(option.id)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <div className="flex justify-between">
+        {progress.steps.length > 0 ? (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => setSteps(progress.steps.slice(0, -1))}
+          >
+            Back
+          </Button>
+        ) : (
+          <span />
+        )}
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0 text-muted-foreground"
+          onClick={() => onComplete(progress.steps, progress.outcome)}
+        >
+          Skip
+        </Button>
+      </div>
+    </div>
+  );
+}
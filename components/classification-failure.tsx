@@ -0,0 +1,73 @@
+"use client";
+
+import { Search, Sparkles } from "lucide-react";
+import { ErrorPanel } from "@/components/error-notice";
+import { Button } from "@/components/ui/button";
+import { TaxonomySearch } from "@/components/taxonomy-search";
+import type { ClassificationErrorCode } from "@/lib/classification/errors";
+import { CLASSIFICATION_ERRORS, formatWait } from "@/lib/errors";
+import type { TaxonomyItem } from "@/lib/taxonomy";
+
+export interface ClassificationFailure {
+  code: ClassificationErrorCode;
+  message: string;
+  // When the server said to wait before trying again
+  retryAfterSeconds?: number;
+}
+
+interface ClassificationFailurePanelProps {
+  failure: ClassificationFailure;
+  onRetry: () => void;
+  onSelectItem: (item: TaxonomyItem) => void;
+  // Only passed when demo mode is explicitly enabled
+  onShowDemo?: () => void;
+  onReset: () => void;
+}
+
+export function ClassificationFailurePanel({
+  failure,
+  onRetry,
+  onSelectItem,
+  onShowDemo,
+  onReset,
+}: ClassificationFailurePanelProps) {
+  return (
+    <ErrorPanel
+      entry={CLASSIFICATION_ERRORS[failure.code]}
+      detail={
+        failure.retryAfterSeconds !== undefined
+          ? `You can try again in about ${formatWait(
+              failure.retryAfterSeconds
+            )}.`
+          : undefined
+      }
+      onRetry={onRetry}
+    >
+      <div className="space-y-2">
+        <label
+          htmlFor="manual-search"
+          className="text-sm font-medium flex items-center gap-2"
+        >
+          <Search className="h-4 w-4" />
+          Search for the item instead
+        </label>
+        <TaxonomySearch id="manual-search" onSelectItem={onSelectItem} />
+      </div>
+
+      {onShowDemo && (
+        <Button
+          onClick={onShowDemo}
+          variant="outline"
+          className="w-full border-yellow-300 text-yellow-800"
+        >
+          <Sparkles className="mr-2 h-4 w-4" />
+          Show Demo Result (not a real classification)
+        </Button>
+      )}
+
+      <Button onClick={onReset} variant="outline" className="w-full bg-transparent">
+        Take Another Photo
+      </Button>
+    </ErrorPanel>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { ClarificationWizard } from "@/components/clarification-wizard";
+import { CorrectionDialog } from "@/components/correction-dialog";
+import {
+  BIN_SWATCHES,
+  getClassificationBorderColor,
+  getClassificationColor,
+  getClassificationIcon,
+} from "@/components/waste-category";
+import { Button } from "@/components/ui/button";
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  needsClarification,
+  type ClassificationResult,
+} from "@/lib/classification/result";
+import type { FeedbackMethod } from "@/lib/feedback/schema";
+import { getDisposalGuide } from "@/lib/localities";
+import {
+  CATEGORY_INFO,
+  getTaxonomyItem,
+  type ClarificationOutcome,
+  type ClarificationStep,
+  type TaxonomyItem,
+} from "@/lib/taxonomy";
+
+interface ClassificationResultCardProps {
+  result: ClassificationResult;
+  localityId: string | null;
+  // Number matching the box drawn over the photo when several objects were found
+  marker?: number;
+  // Shows the "Not right?" action, and the candidate picker for uncertain
+  // results, when provided
+  onCorrect?: (item: TaxonomyItem, method: FeedbackMethod) => void;
+  // Shows the item's follow-up questions, when it needs them, if provided
+  onClarify?: (steps: ClarificationStep[], outcome: ClarificationOutcome) => void;
+}
+
+export function ClassificationResultCard({
+  result,
+  localityId,
+  marker,
+  onCorrect,
+  onClarify,
+}: ClassificationResultCardProps) {
+  // Locality rules and the user's answers can move an item to another category
+  // and replace its steps
+  const guide = getDisposalGuide(
+    result.itemId,
+    localityId,
+    result.clarification?.outcome
+  );
+  if (!guide) {
+    return null;
+  }
+  const resultCategory = guide.category;
+  const candidates =
+    onCorrect &&
+    result.confidence < LOW_CONFIDENCE_THRESHOLD &&
+    result.candidates &&
+    result.candidates.length > 1
+      ? result.candidates
+      : [];
+
+  // Settle which item it is before asking about it
+  const item = getTaxonomyItem(result.itemId);
+  const showWizard =
+    onClarify && item && candidates.length === 0 && needsClarification(result);
+
+  const chooseCandidate = (itemId: string) => {
+    const item = getTaxonomyItem(itemId);
+    if (item && onCorrect) {
+      onCorrect(item, "candidate");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        {marker !== undefined && (
+          <span
+            className={`flex h-6 w-6 shrink-0 items-center justify-center rounded-full border-2 text-xs font-semibold ${getClassificationBorderColor(
+              resultCategory
+            )}`}
+          >
+            {marker}
+          </span>
+        )}
+        {getClassificationIcon(resultCategory)}
+        <div>
+          <h3 className="font-semibold text-lg">
+            {CATEGORY_INFO[resultCategory].label}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {result.item} •{" "}
+            {result.source === "manual"
+              ? "selected manually"
+              : `${result.confidence}% confidence`}
+          </p>
+          {onCorrect && (
+            <CorrectionDialog
+              itemName={result.item}
+              onCorrect={(item) => onCorrect(item, "search")}
+            />
+          )}
+        </div>
+      </div>
+
+      {candidates.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 p-3 rounded-lg space-y-2">
+          <p className="text-sm font-medium text-yellow-900">
+            We&apos;re not sure. Which of these is it?
+          </p>
+          <div className="grid gap-2">
+            {candidates.map((candidate) => (
+              <Button
+                key={candidate.itemId}
+                variant="outline"
+                className="justify-between bg-white"
+                onClick={() => chooseCandidate(candidate.itemId)}
+              >
+                <span className="flex items-center gap-2">
+                  {getClassificationIcon(candidate.type, "h-4 w-4")}
+                  {candidate.item}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {candidate.confidence}%
+                </span>
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-yellow-800">
+            Choosing one also sends this photo to us as a correction to help
+            improve the classifier.
+          </p>
+        </div>
+      )}
+
+      {showWizard && (
+        <ClarificationWizard
+          key={result.itemId}
+          item={item}
+          onComplete={onClarify}
+        />
+      )}
+
+      <Badge
+        className={`${getClassificationColor(
+          resultCategory
+        )} px-3 py-1`}
+        variant="outline"
+      >
+        {CATEGORY_INFO[resultCategory].label.toUpperCase()}
+      </Badge>
+
+      {result.source === "demo" && (
+        <Badge
+          className="ml-2 bg-yellow-100 text-yellow-800 border-yellow-200 px-3 py-1"
+          variant="outline"
+        >
+          DEMO RESULT – NOT A REAL CLASSIFICATION
+        </Badge>
+      )}
+
+      {result.hazards.length > 0 && (
+        <div className="bg-red-50 border border-red-200 p-3 rounded-lg">
+          <p className="text-sm text-red-800">
+            ⚠️ <strong>Handle with care:</strong>{" "}
+            {result.hazards.join(", ")}
+          </p>
+        </div>
+      )}
+
+      {guide.bin && (
+        <div className="flex items-center gap-3 border p-3 rounded-lg">
+          <span
+            className={`h-6 w-6 shrink-0 rounded-full border ${
+              BIN_SWATCHES[guide.bin.color]
+            }`}
+          />
+          <div className="text-sm">
+            <p className="font-medium">{guide.bin.label}</p>
+            {guide.collectionDays && (
+              <p className="text-muted-foreground">
+                Collection: {guide.collectionDays.join(", ")}
+              </p>
+            )}
+            {guide.locality && !guide.locality.verified && (
+              <p className="text-muted-foreground">
+                Not yet checked against {guide.locality.name} ordinances;
+                confirm with your barangay.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-muted p-3 rounded-lg">
+        <p className="text-sm text-muted-foreground">
+          💡 <strong>How to dispose</strong>
+          {guide.locality
+            ? ` in ${guide.locality.name}:`
+            : ":"}
+        </p>
+        {result.clarification && result.clarification.steps.length > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            Based on your answers
+          </p>
+        )}
+        <ol className="mt-2 list-decimal list-inside space-y-1 text-sm text-muted-foreground">
+          {guide.steps.map((step) => (
+            <li key={step}>{step}</li>
+          ))}
+        </ol>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {CATEGORY_INFO[resultCategory].summary}
+        </p>
+      </div>
+    </div>
+  );
+}
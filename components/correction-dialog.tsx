@@ -0,0 +1,51 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { TaxonomySearch } from "@/components/taxonomy-search";
+import type { TaxonomyItem } from "@/lib/taxonomy";
+
+interface CorrectionDialogProps {
+  itemName: string;
+  onCorrect: (item: TaxonomyItem) => void;
+}
+
+export function CorrectionDialog({ itemName, onCorrect }: CorrectionDialogProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0">
+          Not right?
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>What is it really?</DialogTitle>
+          <DialogDescription>
+            We said &ldquo;{itemName}&rdquo;. Pick the correct item and
+            we&apos;ll show the right disposal steps. Your correction and photo
+            help us improve the classifier.
+          </DialogDescription>
+        </DialogHeader>
+        <TaxonomySearch
+          id="correction-search"
+          autoFocus
+          onSelectItem={(item) => {
+            onCorrect(item);
+            setOpen(false);
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { getClassificationBorderColor } from "@/components/waste-category";
+import type { ClassificationResult } from "@/lib/classification/result";
+import { getDisposalGuide } from "@/lib/localities";
+
+interface DetectionOverlayProps {
+  src: string;
+  results: ClassificationResult[];
+  localityId: string | null;
+}
+
+// Shows the captured photo uncropped so normalized boxes line up with the pixels
+export function DetectionOverlay({
+  src,
+  results,
+  localityId,
+}: DetectionOverlayProps) {
+  return (
+    <div className="relative">
+      <img
+        src={src}
+        alt="Captured waste"
+        className="w-full h-auto rounded-t-lg"
+      />
+      {results.map((result, index) =>
+        result.box ? (
+          <div
+            key={index}
+            className={`absolute rounded border-2 ${getClassificationBorderColor(
+              getDisposalGuide(
+                result.itemId,
+                localityId,
+                result.clarification?.outcome
+              )?.category ??
+                result.type
+            )}`}
+            style={{
+              left: `${result.box.x * 100}%`,
+              top: `${result.box.y * 100}%`,
+              width: `${result.box.width * 100}%`,
+              height: `${result.box.height * 100}%`,
+            }}
+          >
+            {results.length > 1 && (
+              <span className="absolute -top-3 -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-white text-xs font-semibold shadow">
+                {index + 1}
+              </span>
+            )}
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+}
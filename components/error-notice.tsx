@@ -0,0 +1,56 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { AlertTriangle, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { ErrorEntry } from "@/lib/errors";
+
+// Passing problems from the catalogue; the action repeats what failed
+export function showErrorToast(entry: ErrorEntry, onRetry?: () => void) {
+  toast.error(entry.title, {
+    description: entry.description,
+    action:
+      entry.retryable && onRetry
+        ? { label: "Try again", onClick: onRetry }
+        : undefined,
+  });
+}
+
+interface ErrorPanelProps {
+  entry: ErrorEntry;
+  // Extra context after the catalogue description, such as how long to wait
+  detail?: string;
+  onRetry?: () => void;
+  // Further ways out, shown below the retry button
+  children?: ReactNode;
+}
+
+export function ErrorPanel({ entry, detail, onRetry, children }: ErrorPanelProps) {
+  return (
+    <div role="alert" className="space-y-4">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-8 w-8 shrink-0 text-yellow-600" />
+        <div>
+          <h3 className="font-semibold text-lg">{entry.title}</h3>
+          <p className="text-sm text-muted-foreground">
+            {entry.description}
+            {detail && ` ${detail}`}
+          </p>
+        </div>
+      </div>
+
+      {entry.retryable && onRetry && (
+        <Button
+          onClick={onRetry}
+          className="w-full bg-accent hover:bg-accent/90 text-accent-foreground"
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Try Again
+        </Button>
+      )}
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useRef, useState, type DragEvent, type ReactNode } from "react";
+import { ImageUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IMAGE_FILE_ACCEPT } from "@/lib/capture/file";
+import { cn } from "@/lib/utils";
+
+interface UploadPhotoButtonProps {
+  onImage: (file: File) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function UploadPhotoButton({
+  onImage,
+  disabled,
+  className,
+}: UploadPhotoButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={IMAGE_FILE_ACCEPT}
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          // Cleared so picking the same photo again still fires onChange
+          event.target.value = "";
+          if (file) {
+            onImage(file);
+          }
+        }}
+      />
+      <Button
+        variant="outline"
+        size="lg"
+        className={cn("w-full", className)}
+        disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+      >
+        <ImageUp className="mr-2 h-5 w-5" />
+        Upload a Photo
+      </Button>
+    </>
+  );
+}
+
+interface ImageDropZoneProps {
+  onImage: (file: File) => void;
+  disabled?: boolean;
+  children: ReactNode;
+}
+
+const hasFiles = (event: DragEvent) =>
+  Array.from(event.dataTransfer.types).includes("Files");
+
+export function ImageDropZone({
+  onImage,
+  disabled,
+  children,
+}: ImageDropZoneProps) {
+  // Counts enter/leave pairs, which also fire for every child element
+  const depth = useRef(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const onDragEnter = (event: DragEvent) => {
+    if (disabled || !hasFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    depth.current++;
+    setIsDragging(true);
+  };
+
+  const onDragLeave = () => {
+    depth.current = Math.max(0, depth.current - 1);
+    if (depth.current === 0) {
+      setIsDragging(false);
+    }
+  };
+
+  const onDrop = (event: DragEvent) => {
+    depth.current = 0;
+    setIsDragging(false);
+    if (disabled || !hasFiles(event)) {
+      return;
+    }
+    event.preventDefault();
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      onImage(file);
+    }
+  };
+
+  return (
+    <div
+      className="relative"
+      onDragEnter={onDragEnter}
+      onDragOver={(event) => {
+        // Required for the browser to allow a drop here
+        if (!disabled && hasFiles(event)) {
+          event.preventDefault();
+        }
+      }}
+      onDragLeave={onDragLeave}
+      onDrop={onDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center rounded-xl border-2 border-dashed border-accent bg-accent/10">
+          <p className="rounded-md bg-background px-3 py-1 text-sm font-medium">
+            Drop the photo to analyze it
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import {
+  BIN_SWATCHES,
+  getClassificationIcon,
+} from "@/components/waste-category";
+import type { LiveGuess } from "@/hooks/use-live-classification";
+import { getDisposalGuide } from "@/lib/localities";
+import { CATEGORY_INFO } from "@/lib/taxonomy";
+
+interface LiveGuessOverlayProps {
+  guess: LiveGuess | null;
+  // Nothing recognised in the latest frame; the last guess is shown faded
+  isSearching: boolean;
+  localityId: string | null;
+}
+
+export function LiveGuessOverlay({
+  guess,
+  isSearching,
+  localityId,
+}: LiveGuessOverlayProps) {
+  const result = guess?.result;
+  const guide = result && getDisposalGuide(result.itemId, localityId);
+
+  if (!result || !guide) {
+    return (
+      <div className="rounded-lg bg-black/70 p-3 text-sm text-white">
+        Point the camera at an item…
+      </div>
+    );
+  }
+
+  return (
+    <div
+      aria-live="polite"
+      className={`flex items-center gap-3 rounded-lg bg-white/95 p-3 text-black shadow-lg transition-opacity ${
+        isSearching ? "opacity-60" : "opacity-100"
+      }`}
+    >
+      {guide.bin ? (
+        <span
+          className={`h-10 w-10 shrink-0 rounded-full border ${
+            BIN_SWATCHES[guide.bin.color]
+          }`}
+        />
+      ) : (
+        getClassificationIcon(guide.category, "h-10 w-10")
+      )}
+      <div className="min-w-0">
+        <p className="font-semibold truncate">{result.item}</p>
+        <p className="text-sm text-gray-600 truncate">
+          {guide.bin?.label ?? CATEGORY_INFO[guide.category].label} •{" "}
+          {result.confidence}%
+        </p>
+      </div>
+    </div>
+  );
+}
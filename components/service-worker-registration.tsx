@@ -0,0 +1,38 @@
+"use client";
+
+import { useEffect } from "react";
+import { logger } from "@/lib/logger";
+
+// Bundles this page already loaded, so the worker can cache them for offline launches
+function loadedAssetUrls() {
+  return performance
+    .getEntriesByType("resource")
+    .map((entry) => entry.name)
+    .filter((name) => new URL(name).pathname.startsWith("/_next/static/"));
+}
+
+// Registered in production only so the dev server never serves stale cached bundles
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (
+      process.env.NODE_ENV !== "production" ||
+      !("serviceWorker" in navigator)
+    ) {
+      return;
+    }
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then(() => navigator.serviceWorker.ready)
+      .then((registration) =>
+        registration.active?.postMessage({
+          type: "cache-assets",
+          urls: loadedAssetUrls(),
+        })
+      )
+      .catch((error) => {
+        logger.error("service worker registration failed", { error });
+      });
+  }, []);
+
+  return null;
+}
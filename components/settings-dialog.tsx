@@ -0,0 +1,119 @@
+"use client";
+
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { getLocality, localities } from "@/lib/localities";
+
+// Radix Select does not allow an empty string as an item value
+const NO_LOCALITY = "none";
+
+interface SettingsDialogProps {
+  localityId: string | null;
+  onLocalityChange: (id: string | null) => void;
+  saveLocation: boolean;
+  onSaveLocationChange: (enabled: boolean) => void;
+}
+
+export function SettingsDialog({
+  localityId,
+  onLocalityChange,
+  saveLocation,
+  onSaveLocationChange,
+}: SettingsDialogProps) {
+  const selectedLocality = getLocality(localityId);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Settings">
+          <Settings className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>
+            Disposal rules differ between cities and barangays. Pick yours to
+            see the right bin colours.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="locality">Locality</Label>
+          <Select
+            value={localityId ?? NO_LOCALITY}
+            onValueChange={(value) =>
+              onLocalityChange(value === NO_LOCALITY ? null : value)
+            }
+          >
+            <SelectTrigger id="locality" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_LOCALITY}>
+                National guidelines (RA 9003)
+              </SelectItem>
+              {localities.map((locality) => (
+                <SelectItem key={locality.id} value={locality.id}>
+                  {locality.name}, {locality.region}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedLocality && (
+            <p className="text-sm text-muted-foreground">
+              {selectedLocality.lastVerified ? (
+                <>
+                  Checked against the local rules on{" "}
+                  {selectedLocality.lastVerified}.{" "}
+                </>
+              ) : (
+                <>
+                  These rules have not been checked against a local ordinance
+                  yet; confirm them with your barangay.{" "}
+                </>
+              )}
+              <a
+                href={selectedLocality.source}
+                target="_blank"
+                rel="noreferrer"
+                className="underline"
+              >
+                Source
+              </a>
+            </p>
+          )}
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="save-location">Save location with scans</Label>
+            <p className="text-sm text-muted-foreground">
+              Stored only on this device, in your scan history.
+            </p>
+          </div>
+          <Switch
+            id="save-location"
+            checked={saveLocation}
+            onCheckedChange={onSaveLocationChange}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { searchTaxonomy, type TaxonomyItem } from "@/lib/taxonomy";
+
+interface TaxonomySearchProps {
+  id: string;
+  onSelectItem: (item: TaxonomyItem) => void;
+  autoFocus?: boolean;
+}
+
+export function TaxonomySearch({
+  id,
+  onSelectItem,
+  autoFocus,
+}: TaxonomySearchProps) {
+  const [query, setQuery] = useState("");
+
+  const matches = useMemo(() => searchTaxonomy(query), [query]);
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="e.g. bottle, battery, cardboard"
+        autoFocus={autoFocus}
+      />
+      {matches.length > 0 && (
+        <ul className="border rounded-md divide-y">
+          {matches.map((item) => (
+            <li key={item.id}>
+              <button
+                type="button"
+                onClick={() => onSelectItem(item)}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+              >
+                {item.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {query.trim() && matches.length === 0 && (
+        <p className="text-sm text-muted-foreground">No matching items.</p>
+      )}
+    </div>
+  );
+}
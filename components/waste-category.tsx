@@ -0,0 +1,84 @@
+import {
+  Cpu,
+  FlaskConical,
+  HeartHandshake,
+  Leaf,
+  Recycle,
+  Syringe,
+  Trash2,
+} from "lucide-react";
+import type { BinColor } from "@/lib/localities";
+import type { WasteCategory } from "@/lib/taxonomy";
+
+export const getClassificationIcon = (
+  type: WasteCategory,
+  size = "h-8 w-8"
+) => {
+  switch (type) {
+    case "biodegradable":
+      return <Leaf className={`${size} text-green-600`} />;
+    case "recyclable":
+      return <Recycle className={`${size} text-blue-600`} />;
+    case "residual":
+      return <Trash2 className={`${size} text-gray-700`} />;
+    case "hazardous":
+      return <FlaskConical className={`${size} text-red-600`} />;
+    case "e-waste":
+      return <Cpu className={`${size} text-orange-600`} />;
+    case "reusable":
+      return <HeartHandshake className={`${size} text-purple-600`} />;
+    case "medical":
+      return <Syringe className={`${size} text-yellow-600`} />;
+  }
+};
+
+export const getClassificationColor = (type: WasteCategory) => {
+  switch (type) {
+    case "biodegradable":
+      return "bg-green-100 text-green-800 border-green-200";
+    case "recyclable":
+      return "bg-blue-100 text-blue-800 border-blue-200";
+    case "residual":
+      return "bg-gray-100 text-gray-800 border-gray-300";
+    case "hazardous":
+      return "bg-red-100 text-red-800 border-red-200";
+    case "e-waste":
+      return "bg-orange-100 text-orange-800 border-orange-200";
+    case "reusable":
+      return "bg-purple-100 text-purple-800 border-purple-200";
+    case "medical":
+      return "bg-yellow-100 text-yellow-800 border-yellow-300";
+  }
+};
+
+// Outline colour for detection boxes and their numbered markers
+export const getClassificationBorderColor = (type: WasteCategory) => {
+  switch (type) {
+    case "biodegradable":
+      return "border-green-500 text-green-700";
+    case "recyclable":
+      return "border-blue-500 text-blue-700";
+    case "residual":
+      return "border-gray-600 text-gray-800";
+    case "hazardous":
+      return "border-red-500 text-red-700";
+    case "e-waste":
+      return "border-orange-500 text-orange-700";
+    case "reusable":
+      return "border-purple-500 text-purple-700";
+    case "medical":
+      return "border-yellow-500 text-yellow-700";
+  }
+};
+
+// Fill for the locality bin colour swatch
+export const BIN_SWATCHES: Record<BinColor, string> = {
+  green: "bg-green-600",
+  blue: "bg-blue-600",
+  black: "bg-black",
+  red: "bg-red-600",
+  yellow: "bg-yellow-400",
+  orange: "bg-orange-500",
+  gray: "bg-gray-400",
+  white: "bg-white",
+};
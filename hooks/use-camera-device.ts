@@ -0,0 +1,24 @@
+import * as React from "react"
+
+const STORAGE_KEY = "tapontama.cameraDevice"
+
+// Remembers which camera the user picked. Device ids are stable per origin, so a
+// camera that is later unplugged just falls back to the default on next start.
+export function useCameraDevice() {
+  const [deviceId, setDeviceIdState] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    setDeviceIdState(window.localStorage.getItem(STORAGE_KEY))
+  }, [])
+
+  const setDeviceId = React.useCallback((id: string | null) => {
+    setDeviceIdState(id)
+    if (id) {
+      window.localStorage.setItem(STORAGE_KEY, id)
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY)
+    }
+  }, [])
+
+  return [deviceId, setDeviceId] as const
+}
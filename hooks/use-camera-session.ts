@@ -0,0 +1,270 @@
+import * as React from "react"
+import { useCameraDevice } from "@/hooks/use-camera-device"
+import {
+  CameraError,
+  getTrackControls,
+  getTrackSettings,
+  listVideoInputs,
+  openCameraStream,
+  setTorch as applyTorch,
+  setZoom as applyZoom,
+  toCameraError,
+  type TrackControls,
+  type VideoInput,
+} from "@/lib/camera"
+import { encodeImage, type EncodeProfile } from "@/lib/capture"
+import { logger } from "@/lib/logger"
+
+// "paused" means the tab is in the background and the stream was released until it returns
+export type CameraStatus = "idle" | "starting" | "active" | "paused" | "error"
+
+// "unknown" where the Permissions API can't report on the camera (Firefox, older Safari)
+export type CameraPermission = "unknown" | "prompt" | "granted" | "denied"
+
+export interface CameraSession {
+  // Pass as the ref of the <video> that shows the preview
+  videoRef: (element: HTMLVideoElement | null) => void
+  status: CameraStatus
+  permission: CameraPermission
+  // Why the camera could not start, or why the last capture failed
+  error: CameraError | null
+  devices: VideoInput[]
+  deviceId?: string
+  controls: TrackControls
+  torch: boolean
+  zoom?: number
+  start: () => Promise<void>
+  stop: () => void
+  switchDevice: (deviceId: string) => Promise<void>
+  setTorch: (enabled: boolean) => Promise<void>
+  setZoom: (zoom: number) => void
+  // Encodes the current preview frame; throws a CameraError when that's not possible
+  captureFrame: (profile?: EncodeProfile) => Promise<Blob>
+}
+
+const NO_CONTROLS: TrackControls = { torch: false }
+
+// Owns the camera stream for a screen: opening it with constraint fallbacks, releasing
+// it on stop, unmount and while the tab is hidden, and reporting failures as typed
+// errors the screen can render.
+export function useCameraSession(): CameraSession {
+  const [preferredDeviceId, setPreferredDeviceId] = useCameraDevice()
+  const [status, setStatus] = React.useState<CameraStatus>("idle")
+  const [permission, setPermission] = React.useState<CameraPermission>("unknown")
+  const [error, setError] = React.useState<CameraError | null>(null)
+  const [devices, setDevices] = React.useState<VideoInput[]>([])
+  const [deviceId, setDeviceId] = React.useState<string>()
+  const [controls, setControls] = React.useState<TrackControls>(NO_CONTROLS)
+  const [torch, setTorchState] = React.useState(false)
+  const [zoom, setZoomState] = React.useState<number>()
+
+  const streamRef = React.useRef<MediaStream | null>(null)
+  const videoElementRef = React.useRef<HTMLVideoElement | null>(null)
+  // Bumped by every open and stop so a slow getUserMedia can't revive a stopped session
+  const generationRef = React.useRef(0)
+  const statusRef = React.useRef(status)
+  statusRef.current = status
+  const preferredDeviceIdRef = React.useRef(preferredDeviceId)
+  preferredDeviceIdRef.current = preferredDeviceId
+
+  const release = React.useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    if (videoElementRef.current) {
+      videoElementRef.current.srcObject = null
+    }
+  }, [])
+
+  // The <video> usually mounts after the stream opens, so both sides attach
+  const videoRef = React.useCallback((element: HTMLVideoElement | null) => {
+    videoElementRef.current = element
+    if (element && streamRef.current && element.srcObject !== streamRef.current) {
+      element.srcObject = streamRef.current
+    }
+  }, [])
+
+  const attach = React.useCallback((stream: MediaStream) => {
+    streamRef.current = stream
+    if (videoElementRef.current) {
+      videoElementRef.current.srcObject = stream
+    }
+    const [track] = stream.getVideoTracks()
+    const settings = track ? getTrackSettings(track) : undefined
+    setControls(track ? getTrackControls(track) : NO_CONTROLS)
+    setDeviceId(settings?.deviceId)
+    setTorchState(settings?.torch ?? false)
+    setZoomState(settings?.zoom)
+    // Labels are only filled in once access has been granted
+    listVideoInputs()
+      .then(setDevices)
+      .catch(() => setDevices([]))
+    return settings
+  }, [])
+
+  // Background opens (resume, switching cameras) keep the current status until the
+  // stream is ready so the preview doesn't flash a loading screen.
+  const open = React.useCallback(
+    async (requestedDeviceId: string | null | undefined, background = false) => {
+      const generation = ++generationRef.current
+      setError(null)
+      if (!background) {
+        setStatus("starting")
+      }
+      try {
+        const stream = await openCameraStream(requestedDeviceId)
+        if (generation !== generationRef.current) {
+          stream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        const settings = attach(stream)
+        // The chosen camera is gone and a fallback opened instead
+        if (requestedDeviceId && settings?.deviceId && settings.deviceId !== requestedDeviceId) {
+          setPreferredDeviceId(null)
+        }
+        setPermission("granted")
+        setStatus("active")
+      } catch (cause) {
+        if (generation !== generationRef.current) {
+          return
+        }
+        const cameraError = toCameraError(cause)
+        logger.warn("unable to open the camera", { code: cameraError.code, error: cause })
+        if (cameraError.code === "permission_denied") {
+          setPermission("denied")
+        }
+        setError(cameraError)
+        setStatus("error")
+      }
+    },
+    [attach, setPreferredDeviceId],
+  )
+
+  const start = React.useCallback(async () => {
+    if (!streamRef.current) {
+      await open(preferredDeviceIdRef.current)
+    }
+  }, [open])
+
+  const stop = React.useCallback(() => {
+    generationRef.current++
+    release()
+    setError(null)
+    setStatus("idle")
+  }, [release])
+
+  // Mobiles can only open one camera at a time, so the old stream goes first
+  const switchDevice = React.useCallback(
+    async (id: string) => {
+      release()
+      setPreferredDeviceId(id)
+      await open(id, true)
+    },
+    [open, release, setPreferredDeviceId],
+  )
+
+  const setTorch = React.useCallback(async (enabled: boolean) => {
+    const track = streamRef.current?.getVideoTracks()[0]
+    if (!track) {
+      return
+    }
+    try {
+      await applyTorch(track, enabled)
+      setTorchState(enabled)
+    } catch (cause) {
+      logger.warn("unable to toggle the flashlight", { error: cause })
+    }
+  }, [])
+
+  const setZoom = React.useCallback((value: number) => {
+    const track = streamRef.current?.getVideoTracks()[0]
+    if (!track) {
+      return
+    }
+    setZoomState(value)
+    applyZoom(track, value).catch((cause) => logger.warn("unable to change zoom", { error: cause }))
+  }, [])
+
+  const captureFrame = React.useCallback(async (profile?: EncodeProfile) => {
+    const video = videoElementRef.current
+    if (!video || !streamRef.current || video.videoWidth === 0 || video.videoHeight === 0) {
+      const notReady = new CameraError("not_ready", "The camera is not ready yet")
+      setError(notReady)
+      throw notReady
+    }
+    try {
+      const { blob } = await encodeImage(video, profile)
+      setError(null)
+      return blob
+    } catch (cause) {
+      logger.error("unable to capture the photo", { error: cause })
+      const failed = new CameraError("capture_failed", "Unable to capture the photo")
+      setError(failed)
+      throw failed
+    }
+  }, [])
+
+  // Releasing the camera in the background turns off the recording indicator and
+  // lets other apps use it
+  React.useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.hidden && streamRef.current) {
+        generationRef.current++
+        release()
+        setStatus("paused")
+      } else if (!document.hidden && statusRef.current === "paused") {
+        open(preferredDeviceIdRef.current, true)
+      }
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange)
+  }, [open, release])
+
+  React.useEffect(() => {
+    return () => {
+      generationRef.current++
+      release()
+    }
+  }, [release])
+
+  React.useEffect(() => {
+    let cancelled = false
+    let permissionStatus: PermissionStatus | undefined
+    const update = () => {
+      if (permissionStatus && !cancelled) {
+        setPermission(permissionStatus.state)
+      }
+    }
+    navigator.permissions
+      ?.query({ name: "camera" as PermissionName })
+      .then((result) => {
+        permissionStatus = result
+        update()
+        result.addEventListener("change", update)
+      })
+      .catch(() => {
+        // Firefox rejects "camera" as a permission name
+      })
+    return () => {
+      cancelled = true
+      permissionStatus?.removeEventListener("change", update)
+    }
+  }, [])
+
+  return {
+    videoRef,
+    status,
+    permission,
+    error,
+    devices,
+    deviceId,
+    controls,
+    torch,
+    zoom,
+    start,
+    stop,
+    switchDevice,
+    setTorch,
+    setZoom,
+    captureFrame,
+  }
+}
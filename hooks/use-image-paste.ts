@@ -0,0 +1,25 @@
+import * as React from "react"
+
+// Picks up an image pasted anywhere on the page, e.g. a screenshot or a photo
+// copied from another app. Text pastes into inputs are left alone.
+export function useImagePaste(onImage: (file: File) => void, enabled = true) {
+  const onImageRef = React.useRef(onImage)
+  onImageRef.current = onImage
+
+  React.useEffect(() => {
+    if (!enabled) {
+      return
+    }
+    const onPaste = (event: ClipboardEvent) => {
+      const file = Array.from(event.clipboardData?.files ?? []).find((candidate) =>
+        candidate.type.startsWith("image/"),
+      )
+      if (file) {
+        event.preventDefault()
+        onImageRef.current(file)
+      }
+    }
+    window.addEventListener("paste", onPaste)
+    return () => window.removeEventListener("paste", onPaste)
+  }, [enabled])
+}
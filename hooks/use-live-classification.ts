@@ -0,0 +1,108 @@
+import * as React from "react"
+import { ClassifyRequestError, requestClassification } from "@/lib/classification/client"
+import { numberSetting } from "@/lib/classification/env"
+import type { ClassificationResult } from "@/lib/classification/result"
+import { blobToDataUrl, type EncodeProfile } from "@/lib/capture"
+import { logger } from "@/lib/logger"
+
+// Small frames keep sampling cheap
+const LIVE_PROFILE: EncodeProfile = { maxDimension: 480, quality: 0.7 }
+// Every sample counts against the classify route's session limit (10 a minute by
+// default), so the rate stays at a few a minute and can't be configured close to it
+const MIN_SERVER_INTERVAL_MS = 10_000
+const SERVER_INTERVAL_MS = Math.max(
+  MIN_SERVER_INTERVAL_MS,
+  numberSetting(process.env.NEXT_PUBLIC_LIVE_SERVER_INTERVAL_MS, 15_000, "NEXT_PUBLIC_LIVE_SERVER_INTERVAL_MS"),
+)
+
+export interface LiveClassificationOptions {
+  // Turning live mode on is the user's agreement to send frames to the server
+  enabled: boolean
+  captureFrame: (profile?: EncodeProfile) => Promise<Blob>
+}
+
+export interface LiveGuess {
+  result: ClassificationResult
+  // The sampled frame the result was made from, as a data URL
+  frame: string
+}
+
+export interface LiveClassification {
+  // Latest sampled answer; null until something was recognised
+  guess: LiveGuess | null
+  // Whether the latest guess came from a frame where nothing was recognised
+  isSearching: boolean
+  // Classifies the current frame once, for freezing before the first answer is in
+  classifyFrame: () => Promise<LiveGuess | null>
+}
+
+// Classify mode answers with the best label for the whole frame; detect mode would
+// list objects in no particular order
+async function classifyLiveFrame(frame: string): Promise<ClassificationResult | null> {
+  const [result] = await requestClassification(frame, "classify")
+  return result ?? null
+}
+
+// Classifies preview frames one at a time while enabled. The next frame is only
+// taken once the previous answer is in, so a slow network lowers the rate instead
+// of queueing requests.
+export function useLiveClassification({ enabled, captureFrame }: LiveClassificationOptions): LiveClassification {
+  const [guess, setGuess] = React.useState<LiveGuess | null>(null)
+  const [isSearching, setIsSearching] = React.useState(true)
+  const captureFrameRef = React.useRef(captureFrame)
+  captureFrameRef.current = captureFrame
+
+  React.useEffect(() => {
+    setGuess(null)
+    setIsSearching(true)
+    if (!enabled) {
+      return
+    }
+
+    let cancelled = false
+    let timer: number | undefined
+
+    const sample = async () => {
+      let delay = SERVER_INTERVAL_MS
+      try {
+        // Hidden tabs have no camera stream to sample
+        if (!document.hidden) {
+          const frame = await blobToDataUrl(await captureFrameRef.current(LIVE_PROFILE))
+          const result = await classifyLiveFrame(frame)
+          if (!cancelled) {
+            setIsSearching(result === null)
+            if (result) {
+              setGuess({ result, frame })
+            }
+          }
+        }
+      } catch (error) {
+        if (error instanceof ClassifyRequestError && error.retryAfterSeconds !== undefined) {
+          delay = Math.max(delay, error.retryAfterSeconds * 1000)
+        }
+        if (error instanceof ClassifyRequestError && error.code === "no_match" && !cancelled) {
+          setIsSearching(true)
+        }
+        // Frames fail routinely while the camera warms up or nothing is in view
+        logger.debug("live sample skipped", { error })
+      }
+      if (!cancelled) {
+        timer = window.setTimeout(sample, delay)
+      }
+    }
+
+    timer = window.setTimeout(sample, 0)
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [enabled])
+
+  const classifyFrame = React.useCallback(async () => {
+    const frame = await blobToDataUrl(await captureFrameRef.current(LIVE_PROFILE))
+    const result = await classifyLiveFrame(frame)
+    return result ? { result, frame } : null
+  }, [])
+
+  return { guess, isSearching, classifyFrame }
+}
@@ -0,0 +1,27 @@
+import * as React from "react"
+import { getLocality } from "@/lib/localities"
+
+const STORAGE_KEY = "tapontama.locality"
+
+export function useLocality() {
+  const [localityId, setLocalityIdState] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    // Drop selections for rule packs that are no longer shipped
+    if (stored && getLocality(stored)) {
+      setLocalityIdState(stored)
+    }
+  }, [])
+
+  const setLocalityId = React.useCallback((id: string | null) => {
+    setLocalityIdState(id)
+    if (id) {
+      window.localStorage.setItem(STORAGE_KEY, id)
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY)
+    }
+  }, [])
+
+  return [localityId, setLocalityId] as const
+}
@@ -0,0 +1,60 @@
+import * as React from "react"
+import { listScans } from "@/lib/history"
+import { processQueue } from "@/lib/history/queue"
+import { logger } from "@/lib/logger"
+
+// Classifies scans captured offline as soon as the app is online again, either on the
+// browser "online" event or when the service worker relays a background sync.
+export function useOfflineQueue(onProcessed?: () => void) {
+  const [pendingCount, setPendingCount] = React.useState(0)
+  const onProcessedRef = React.useRef(onProcessed)
+  onProcessedRef.current = onProcessed
+
+  // Returns the number of pending scans, or null when the queue can't be read
+  const refreshCount = React.useCallback(async () => {
+    try {
+      const scans = await listScans()
+      const count = scans.filter((scan) => scan.status === "pending").length
+      setPendingCount(count)
+      return count
+    } catch (error) {
+      logger.error("unable to read the offline queue", { error })
+      return null
+    }
+  }, [])
+
+  const run = React.useCallback(async () => {
+    if (!navigator.onLine) {
+      return null
+    }
+    try {
+      const processed = await processQueue()
+      if (processed > 0) {
+        onProcessedRef.current?.()
+      }
+    } catch (error) {
+      logger.error("unable to process the offline queue", { error })
+    }
+    return refreshCount()
+  }, [refreshCount])
+
+  React.useEffect(() => {
+    run()
+
+    // The service worker keeps the sync open until we report what is still pending
+    const onMessage = async (event: MessageEvent) => {
+      if (event.data?.type === "process-queue") {
+        const pending = await run()
+        event.ports[0]?.postMessage({ pending })
+      }
+    }
+    window.addEventListener("online", run)
+    navigator.serviceWorker?.addEventListener("message", onMessage)
+    return () => {
+      window.removeEventListener("online", run)
+      navigator.serviceWorker?.removeEventListener("message", onMessage)
+    }
+  }, [run])
+
+  return { pendingCount, refreshCount }
+}
@@ -0,0 +1,19 @@
+import * as React from "react"
+
+const STORAGE_KEY = "tapontama.saveLocation"
+
+// Attaching a location to history entries is opt-in
+export function useSaveLocation() {
+  const [saveLocation, setSaveLocationState] = React.useState(false)
+
+  React.useEffect(() => {
+    setSaveLocationState(window.localStorage.getItem(STORAGE_KEY) === "true")
+  }, [])
+
+  const setSaveLocation = React.useCallback((enabled: boolean) => {
+    setSaveLocationState(enabled)
+    window.localStorage.setItem(STORAGE_KEY, String(enabled))
+  }, [])
+
+  return [saveLocation, setSaveLocation] as const
+}
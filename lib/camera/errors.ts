@@ -0,0 +1,48 @@
+export const CAMERA_ERROR_CODES = [
+  "unsupported",
+  "insecure_context",
+  "permission_denied",
+  "not_found",
+  "in_use",
+  "not_ready",
+  "capture_failed",
+  "unknown",
+] as const
+
+export type CameraErrorCode = (typeof CAMERA_ERROR_CODES)[number]
+
+export class CameraError extends Error {
+  constructor(
+    readonly code: CameraErrorCode,
+    message: string,
+  ) {
+    super(message)
+    this.name = "CameraError"
+  }
+}
+
+// getUserMedia rejects with DOMException names that differ slightly between browsers
+export function toCameraError(error: unknown): CameraError {
+  if (error instanceof CameraError) {
+    return error
+  }
+  const name = error instanceof Error ? error.name : undefined
+  switch (name) {
+    case "NotAllowedError":
+    case "PermissionDeniedError":
+    case "SecurityError":
+      return new CameraError("permission_denied", "Camera access was denied")
+    case "NotFoundError":
+    case "DevicesNotFoundError":
+    case "OverconstrainedError":
+      return new CameraError("not_found", "No usable camera was found")
+    case "NotReadableError":
+    case "TrackStartError":
+    case "AbortError":
+      return new CameraError("in_use", "The camera is in use by another app or could not be started")
+    case "NotSupportedError":
+      return new CameraError("unsupported", "Camera is not supported in this browser")
+    default:
+      return new CameraError("unknown", error instanceof Error ? error.message : "Unable to access the camera")
+  }
+}
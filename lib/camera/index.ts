@@ -0,0 +1,108 @@
+import { CameraError } from "./errors"
+
+export * from "./errors"
+
+export interface VideoInput {
+  deviceId: string
+  label: string
+}
+
+export interface ZoomRange {
+  min: number
+  max: number
+  step: number
+}
+
+// What the current track lets us change; unset controls are not supported
+export interface TrackControls {
+  torch: boolean
+  zoom?: ZoomRange
+}
+
+// Torch and zoom are part of the Image Capture spec and not in the TypeScript DOM lib yet
+interface ExtendedCapabilities extends MediaTrackCapabilities {
+  torch?: boolean
+  zoom?: { min: number; max: number; step?: number }
+}
+
+interface ExtendedSettings extends MediaTrackSettings {
+  torch?: boolean
+  zoom?: number
+}
+
+const PREFERRED_SIZE = { width: { ideal: 1280 }, height: { ideal: 720 } }
+
+// A remembered camera wins; otherwise mobiles get the back camera
+export function videoConstraints(deviceId?: string | null): MediaTrackConstraints {
+  return deviceId
+    ? { deviceId: { exact: deviceId }, ...PREFERRED_SIZE }
+    : { facingMode: "environment", ...PREFERRED_SIZE }
+}
+
+function isConstraintError(error: unknown) {
+  return error instanceof Error && (error.name === "OverconstrainedError" || error.name === "NotFoundError")
+}
+
+// Tries the chosen camera, then the default camera at the preferred size, then any
+// camera at all. Only constraint failures move on; a denied permission is final.
+export async function openCameraStream(deviceId?: string | null): Promise<MediaStream> {
+  if (!window.isSecureContext) {
+    throw new CameraError("insecure_context", "The camera is only available over HTTPS")
+  }
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError("unsupported", "Camera is not supported in this browser")
+  }
+
+  const attempts: MediaStreamConstraints[] = [
+    ...(deviceId ? [{ video: videoConstraints(deviceId) }] : []),
+    { video: videoConstraints() },
+    { video: true },
+  ]
+  let lastError: unknown
+  for (const constraints of attempts) {
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraints)
+    } catch (error) {
+      if (!isConstraintError(error)) {
+        throw error
+      }
+      lastError = error
+    }
+  }
+  throw lastError
+}
+
+// Labels are empty until the user has granted camera access, so call this after
+// a stream is open
+export async function listVideoInputs(): Promise<VideoInput[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return []
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter((device) => device.kind === "videoinput" && device.deviceId)
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Camera ${index + 1}` }))
+}
+
+export function getTrackControls(track: MediaStreamTrack): TrackControls {
+  // Firefox has no getCapabilities
+  const capabilities: ExtendedCapabilities = track.getCapabilities?.() ?? {}
+  const zoom = capabilities.zoom
+  return {
+    torch: capabilities.torch === true,
+    zoom: zoom && zoom.max > zoom.min ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 } : undefined,
+  }
+}
+
+export function getTrackSettings(track: MediaStreamTrack) {
+  const settings: ExtendedSettings = track.getSettings()
+  return { deviceId: settings.deviceId, torch: settings.torch === true, zoom: settings.zoom }
+}
+
+export function setTorch(track: MediaStreamTrack, enabled: boolean): Promise<void> {
+  return track.applyConstraints({ advanced: [{ torch: enabled } as MediaTrackConstraintSet] })
+}
+
+export function setZoom(track: MediaStreamTrack, zoom: number): Promise<void> {
+  return track.applyConstraints({ advanced: [{ zoom } as MediaTrackConstraintSet] })
+}
@@ -0,0 +1,22 @@
+// Resizes and JPEG-encodes captured frames off the main thread so the camera
+// preview keeps running while a photo is prepared for upload.
+import type { EncodeRequest, EncodeResponse } from "./index"
+
+self.onmessage = async ({ data }: MessageEvent<EncodeRequest>) => {
+  const { id, bitmap, width, height, quality } = data
+  let response: EncodeResponse
+  try {
+    const canvas = new OffscreenCanvas(width, height)
+    const context = canvas.getContext("2d")
+    if (!context) {
+      throw new Error("Unable to get canvas context")
+    }
+    context.drawImage(bitmap, 0, 0, width, height)
+    response = { id, blob: await canvas.convertToBlob({ type: "image/jpeg", quality }) }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : "Unable to encode image" }
+  } finally {
+    bitmap.close()
+  }
+  self.postMessage(response)
+}
@@ -0,0 +1,13 @@
+export const IMAGE_FILE_ERROR_CODES = ["unsupported_type", "unreadable"] as const
+
+export type ImageFileErrorCode = (typeof IMAGE_FILE_ERROR_CODES)[number]
+
+export class ImageFileError extends Error {
+  constructor(
+    readonly code: ImageFileErrorCode,
+    message: string,
+  ) {
+    super(message)
+    this.name = "ImageFileError"
+  }
+}
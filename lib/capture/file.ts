@@ -0,0 +1,84 @@
+import { ImageFileError } from "./errors"
+import { encodeImage, type EncodedImage } from "./index"
+import type { EncodeProfile } from "./profile"
+
+const SUPPORTED_TYPES = new Set(["image/jpeg", "image/png", "image/webp", "image/heic", "image/heif"])
+
+// For <input type="file">; the extensions cover systems that report no type for HEIC
+export const IMAGE_FILE_ACCEPT = [...SUPPORTED_TYPES, ".heic", ".heif"].join(",")
+
+function fileName(file: Blob) {
+  return file instanceof File ? file.name.toLowerCase() : ""
+}
+
+function isHeic(file: Blob) {
+  return file.type === "image/heic" || file.type === "image/heif" || /\.hei[cf]$/.test(fileName(file))
+}
+
+export function isSupportedImageFile(file: Blob): boolean {
+  return SUPPORTED_TYPES.has(file.type) || isHeic(file)
+}
+
+// <img> applies EXIF orientation by default in every current browser
+function loadImageElement(blob: Blob) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(blob)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Unable to decode image"))
+    }
+    image.src = url
+  })
+}
+
+// Phone photos are usually stored sideways with an EXIF orientation tag; both paths
+// return pixels already turned upright so the encoded JPEG needs no tag.
+async function decode(blob: Blob): Promise<ImageBitmap | HTMLImageElement> {
+  if (typeof createImageBitmap !== "undefined") {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: "from-image" })
+    } catch {
+      // Older Safari rejects the options bag; the image element path still works
+    }
+  }
+  return loadImageElement(blob)
+}
+
+// Only Safari decodes HEIC natively. Elsewhere the converter (a large WASM build of
+// libheif) is loaded on first use and turns the photo into a JPEG first.
+async function decodeHeic(blob: Blob) {
+  try {
+    return await decode(blob)
+  } catch {
+    const { default: heic2any } = await import("heic2any")
+    const converted = await heic2any({ blob, toType: "image/jpeg", quality: 0.92 })
+    return decode(Array.isArray(converted) ? converted[0] : converted)
+  }
+}
+
+// Turns a picked, dropped or pasted photo into the same upload JPEG as a camera capture
+export async function encodeImageFile(file: Blob, profile?: EncodeProfile): Promise<EncodedImage> {
+  if (!isSupportedImageFile(file)) {
+    throw new ImageFileError("unsupported_type", `Unsupported image type "${file.type || fileName(file)}"`)
+  }
+
+  let source: ImageBitmap | HTMLImageElement
+  try {
+    source = isHeic(file) ? await decodeHeic(file) : await decode(file)
+  } catch (cause) {
+    throw new ImageFileError("unreadable", cause instanceof Error ? cause.message : "Unable to decode image")
+  }
+
+  try {
+    return await encodeImage(source, profile)
+  } finally {
+    if (source instanceof ImageBitmap) {
+      source.close()
+    }
+  }
+}
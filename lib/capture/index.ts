@@ -0,0 +1,136 @@
+import { logger } from "@/lib/logger"
+import { getEncodeProfile, type EncodeProfile } from "./profile"
+
+export { getEncodeProfile, type EncodeProfile } from "./profile"
+export * from "./errors"
+
+export interface EncodeRequest {
+  id: number
+  bitmap: ImageBitmap
+  width: number
+  height: number
+  quality: number
+}
+
+export type EncodeResponse = { id: number; blob: Blob; error?: undefined } | { id: number; error: string }
+
+export interface EncodedImage {
+  blob: Blob
+  width: number
+  height: number
+}
+
+let worker: Worker | null = null
+// Set once the worker failed to load or crashed; later encodes stay on the main thread
+let workerFailed = false
+let nextRequestId = 0
+const pending = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>()
+
+function supportsWorkerEncoding() {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined"
+}
+
+// A broken worker never answers, so everything still waiting on it is failed at once
+function dropWorker(reason: string) {
+  workerFailed = true
+  worker?.terminate()
+  worker = null
+  for (const request of pending.values()) {
+    request.reject(new Error(reason))
+  }
+  pending.clear()
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("./encode.worker.ts", import.meta.url), { type: "module" })
+    worker.onerror = (event) => {
+      event.preventDefault()
+      dropWorker(event.message || "The encoding worker failed")
+    }
+    worker.onmessageerror = () => dropWorker("The encoding worker sent a message that could not be read")
+    worker.onmessage = ({ data }: MessageEvent<EncodeResponse>) => {
+      const request = pending.get(data.id)
+      pending.delete(data.id)
+      if (data.error === undefined) {
+        request?.resolve(data.blob)
+      } else {
+        request?.reject(new Error(data.error))
+      }
+    }
+  }
+  return worker
+}
+
+function fitWithin(width: number, height: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height))
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
+
+async function encodeInWorker(source: CanvasImageSource, width: number, height: number, quality: number) {
+  // The bitmap is transferred, so the worker owns (and closes) it
+  const bitmap = await createImageBitmap(source)
+  const id = nextRequestId++
+  return new Promise<Blob>((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    const request: EncodeRequest = { id, bitmap, width, height, quality }
+    getWorker().postMessage(request, [bitmap])
+  })
+}
+
+// Safari before 16.4 has no OffscreenCanvas; encode on the main thread instead
+function encodeOnMainThread(source: CanvasImageSource, width: number, height: number, quality: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext("2d")
+    if (!context) {
+      reject(new Error("Unable to get canvas context"))
+      return
+    }
+    context.drawImage(source, 0, 0, width, height)
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Unable to encode image"))), "image/jpeg", quality)
+  })
+}
+
+// Downscales a video frame or image to the upload profile and encodes it as JPEG
+export async function encodeImage(
+  source: HTMLVideoElement | HTMLImageElement | ImageBitmap,
+  profile: EncodeProfile = getEncodeProfile(),
+): Promise<EncodedImage> {
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height
+  if (sourceWidth === 0 || sourceHeight === 0) {
+    throw new Error("The image source has no frame yet")
+  }
+
+  const { width, height } = fitWithin(sourceWidth, sourceHeight, profile.maxDimension)
+  if (!supportsWorkerEncoding() || workerFailed) {
+    return { blob: await encodeOnMainThread(source, width, height, profile.quality), width, height }
+  }
+  try {
+    return { blob: await encodeInWorker(source, width, height, profile.quality), width, height }
+  } catch (error) {
+    // The source is still ours (only a copy was transferred), so it can be encoded again here
+    logger.warn("worker encoding failed, encoding on the main thread", { error })
+    return { blob: await encodeOnMainThread(source, width, height, profile.quality), width, height }
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error ?? new Error("Unable to read image"))
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Decodes a base64 data URL without a fetch() round-trip
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64 = ""] = dataUrl.split(",")
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? "image/jpeg"
+  const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+  return new Blob([bytes], { type: mimeType })
+}
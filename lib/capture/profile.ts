@@ -0,0 +1,34 @@
+import { numberSetting } from "@/lib/classification/env"
+
+// Longest edge sent for classification; providers gain little from more pixels
+const DEFAULT_MAX_DIMENSION = numberSetting(
+  process.env.NEXT_PUBLIC_CAPTURE_MAX_DIMENSION,
+  1280,
+  "NEXT_PUBLIC_CAPTURE_MAX_DIMENSION",
+)
+
+export interface EncodeProfile {
+  maxDimension: number
+  // JPEG quality between 0 and 1
+  quality: number
+}
+
+// Subset of the Network Information API, which only Chromium-based browsers expose
+interface NetworkInformation {
+  effectiveType?: "slow-2g" | "2g" | "3g" | "4g"
+  saveData?: boolean
+}
+
+// Picks smaller, lower-quality uploads on slow or metered connections so scans
+// on prepaid data stay cheap. Browsers without the API get the default profile.
+export function getEncodeProfile(): EncodeProfile {
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection
+
+  if (connection?.saveData || connection?.effectiveType === "slow-2g" || connection?.effectiveType === "2g") {
+    return { maxDimension: Math.min(DEFAULT_MAX_DIMENSION, 640), quality: 0.6 }
+  }
+  if (connection?.effectiveType === "3g") {
+    return { maxDimension: Math.min(DEFAULT_MAX_DIMENSION, 960), quality: 0.7 }
+  }
+  return { maxDimension: DEFAULT_MAX_DIMENSION, quality: 0.8 }
+}
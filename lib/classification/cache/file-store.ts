@@ -0,0 +1,36 @@
+import { createHash } from "node:crypto"
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { CacheStore } from "./types"
+
+export interface FileCacheStoreOptions {
+  dir: string
+}
+
+// One JSON file per entry, for self-hosted deployments that want the cache to
+// survive restarts. Expired files are removed when they are next read.
+export function createFileCacheStore({ dir }: FileCacheStoreOptions): CacheStore {
+  const fileFor = (key: string) => path.join(dir, `${createHash("sha256").update(key).digest("hex")}.json`)
+
+  return {
+    name: "file",
+    async get(key) {
+      const file = fileFor(key)
+      let entry: { value: unknown; expiresAt: number }
+      try {
+        entry = JSON.parse(await readFile(file, "utf8"))
+      } catch {
+        return undefined
+      }
+      if (entry.expiresAt <= Date.now()) {
+        await rm(file, { force: true })
+        return undefined
+      }
+      return entry.value
+    },
+    async set(key, value, ttlMs) {
+      await mkdir(dir, { recursive: true })
+      await writeFile(fileFor(key), JSON.stringify({ value, expiresAt: Date.now() + ttlMs }))
+    },
+  }
+}
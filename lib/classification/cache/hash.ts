@@ -0,0 +1,33 @@
+import { createHash } from "node:crypto"
+import type { ClassificationImage } from "../types"
+
+export function contentHash(image: ClassificationImage): string {
+  return createHash("sha256").update(Buffer.from(image.base64, "base64")).digest("hex")
+}
+
+// 64-bit difference hash: compares neighbouring pixels of a 9x8 greyscale
+// thumbnail, so re-encoded, resized or slightly re-exposed copies of the same
+// photo usually hash the same. Returns null when sharp is not available.
+export async function perceptualHash(image: ClassificationImage): Promise<string | null> {
+  let sharp: typeof import("sharp")
+  try {
+    sharp = (await import("sharp")).default
+  } catch {
+    return null
+  }
+
+  const pixels = await sharp(Buffer.from(image.base64, "base64"))
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer()
+
+  let bits = ""
+  for (let row = 0; row < 8; row++) {
+    for (let column = 0; column < 8; column++) {
+      bits += pixels[row * 9 + column] > pixels[row * 9 + column + 1] ? "1" : "0"
+    }
+  }
+  return bits.replace(/[01]{4}/g, (nibble) => parseInt(nibble, 2).toString(16))
+}
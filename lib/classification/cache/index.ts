@@ -0,0 +1,101 @@
+import path from "node:path"
+import { envNumber } from "../env"
+import { classifyResponseSchema, type ClassifyMode, type ClassifyResponse } from "../schema"
+import type { ClassificationImage } from "../types"
+import { createFileCacheStore } from "./file-store"
+import { contentHash, perceptualHash } from "./hash"
+import { createMemoryCacheStore } from "./memory-store"
+import type { CacheStore } from "./types"
+
+export { createFileCacheStore } from "./file-store"
+export { createMemoryCacheStore } from "./memory-store"
+export type { CacheStore } from "./types"
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60
+
+// Everything that changes the answer for the same photo is part of the key
+export interface CacheScope {
+  provider: string
+  mode: ClassifyMode
+  taxonomyVersion: string
+}
+
+export interface CacheKeys {
+  content: string
+  perceptual: string | null
+}
+
+export interface ResultCacheOptions {
+  store: CacheStore
+  ttlMs: number
+  // Also match near-duplicate photos by perceptual hash
+  perceptual?: boolean
+}
+
+export interface ResultCache {
+  keysFor(image: ClassificationImage, scope: CacheScope): Promise<CacheKeys>
+  get(keys: CacheKeys): Promise<ClassifyResponse | undefined>
+  set(keys: CacheKeys, response: ClassifyResponse): Promise<void>
+}
+
+export function createResultCache({ store, ttlMs, perceptual = false }: ResultCacheOptions): ResultCache {
+  const read = async (key: string) => {
+    const parsed = classifyResponseSchema.safeParse(await store.get(key))
+    return parsed.success ? parsed.data : undefined
+  }
+
+  return {
+    async keysFor(image, { provider, mode, taxonomyVersion }) {
+      const prefix = `${provider}:${mode}:${taxonomyVersion}`
+      const phash = perceptual ? await perceptualHash(image) : null
+      return {
+        content: `${prefix}:sha256:${contentHash(image)}`,
+        perceptual: phash && `${prefix}:dhash:${phash}`,
+      }
+    },
+    async get({ content, perceptual }) {
+      return (await read(content)) ?? (perceptual ? await read(perceptual) : undefined)
+    },
+    async set({ content, perceptual }, response) {
+      await store.set(content, response, ttlMs)
+      if (perceptual) {
+        await store.set(perceptual, response, ttlMs)
+      }
+    },
+  }
+}
+
+let resultCache: ResultCache | null | undefined
+
+// CLASSIFY_CACHE picks the store: "memory" (default), "file" or "off"
+export function getResultCache(): ResultCache | null {
+  if (resultCache !== undefined) {
+    return resultCache
+  }
+
+  const kind = process.env.CLASSIFY_CACHE ?? "memory"
+  const ttlMs = envNumber("CLASSIFY_CACHE_TTL_SECONDS", DEFAULT_TTL_SECONDS) * 1000
+  const perceptual = process.env.CLASSIFY_CACHE_PERCEPTUAL === "true"
+
+  switch (kind) {
+    case "off":
+      resultCache = null
+      break
+    case "file":
+      resultCache = createResultCache({
+        store: createFileCacheStore({
+          dir: process.env.CLASSIFY_CACHE_DIR ?? path.join(process.cwd(), "data", "cache"),
+        }),
+        ttlMs,
+        perceptual,
+      })
+      break
+    default:
+      resultCache = createResultCache({
+        store: createMemoryCacheStore({ maxEntries: envNumber("CLASSIFY_CACHE_MAX_ENTRIES", 500) }),
+        ttlMs,
+        perceptual,
+      })
+  }
+  return resultCache
+}
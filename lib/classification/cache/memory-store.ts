@@ -0,0 +1,34 @@
+import type { CacheStore } from "./types"
+
+export interface MemoryCacheStoreOptions {
+  maxEntries?: number
+}
+
+// Per-process store; entries are lost on restart and not shared between instances
+export function createMemoryCacheStore({ maxEntries = 500 }: MemoryCacheStoreOptions = {}): CacheStore {
+  // Map iteration order doubles as least-recently-used order
+  const entries = new Map<string, { value: unknown; expiresAt: number }>()
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) {
+        return undefined
+      }
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now()) {
+        return undefined
+      }
+      entries.set(key, entry)
+      return entry.value
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+  }
+}
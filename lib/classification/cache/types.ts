@@ -0,0 +1,7 @@
+// Backing storage for cached classification responses. Values are plain JSON
+// and are re-validated when read, so a store can be shared across deploys.
+export interface CacheStore {
+  readonly name: string
+  get(key: string): Promise<unknown | undefined>
+  set(key: string, value: unknown, ttlMs: number): Promise<void>
+}
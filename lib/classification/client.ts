@@ -0,0 +1,128 @@
+import { dataUrlToBlob } from "@/lib/capture"
+import type { ClassificationErrorCode } from "./errors"
+import { LOW_CONFIDENCE_THRESHOLD, processResponse, type ClassificationResult } from "./result"
+import {
+  classificationErrorBodySchema,
+  classifyResponseSchema,
+  type ClassifyMode,
+  type ClassifyResponse,
+} from "./schema"
+
+export interface ClassifyRequestErrorDetails {
+  // True when the request never reached the server, so it is worth retrying once back online
+  offline?: boolean
+  // From Retry-After when the server is rate limiting or out of budget
+  retryAfterSeconds?: number
+  // From X-Request-Id, to find the matching server log entries
+  requestId?: string
+}
+
+export class ClassifyRequestError extends Error {
+  readonly offline: boolean
+  readonly retryAfterSeconds?: number
+  readonly requestId?: string
+
+  constructor(
+    readonly code: ClassificationErrorCode,
+    message: string,
+    { offline = false, retryAfterSeconds, requestId }: ClassifyRequestErrorDetails = {},
+  ) {
+    super(message)
+    this.name = "ClassifyRequestError"
+    this.offline = offline
+    this.retryAfterSeconds = retryAfterSeconds
+    this.requestId = requestId
+  }
+}
+
+async function readClassificationError(response: Response): Promise<ClassifyRequestError> {
+  const retryAfter = Number(response.headers.get("Retry-After"))
+  const details = {
+    retryAfterSeconds: retryAfter > 0 ? retryAfter : undefined,
+    requestId: response.headers.get("X-Request-Id") ?? undefined,
+  }
+  try {
+    const body = classificationErrorBodySchema.safeParse(await response.json())
+    if (body.success) {
+      return new ClassifyRequestError(body.data.error.code, body.data.error.message, details)
+    }
+  } catch {
+    // Non-JSON error page from a proxy or the platform
+  }
+  return new ClassifyRequestError(
+    "provider_unavailable",
+    `Classification failed with status ${response.status}`,
+    details,
+  )
+}
+
+// The image goes up as a binary file part, which is a third smaller than base64 text
+async function postClassification(image: Blob, mode: ClassifyMode): Promise<ClassifyResponse> {
+  const formData = new FormData()
+  formData.append("image", image, "capture.jpg")
+  formData.append("mode", mode)
+
+  let response: Response
+  try {
+    response = await fetch("/api/classify-waste", {
+      method: "POST",
+      body: formData,
+    })
+  } catch {
+    throw new ClassifyRequestError("provider_unavailable", "Could not reach the classification service", {
+      offline: true,
+    })
+  }
+
+  if (!response.ok) {
+    throw await readClassificationError(response)
+  }
+
+  let body: unknown
+  try {
+    body = await response.json()
+  } catch {
+    body = null
+  }
+  const parsed = classifyResponseSchema.safeParse(body)
+  if (!parsed.success) {
+    throw new ClassifyRequestError(
+      "provider_unavailable",
+      "The classification service returned an unexpected response",
+      { requestId: response.headers.get("X-Request-Id") ?? undefined },
+    )
+  }
+
+  return parsed.data
+}
+
+// Detection yields one label per object, so a lone uncertain object has no runners-up
+// for the candidate picker. A classify pass over the same photo supplies them; the
+// detected box is kept for the overlay.
+async function withCandidates(image: Blob, detected: ClassificationResult): Promise<ClassificationResult> {
+  try {
+    const [classified] = processResponse(await postClassification(image, "classify"))
+    return classified ? { ...classified, box: detected.box } : detected
+  } catch {
+    return detected
+  }
+}
+
+// Sends a captured data URL to /api/classify-waste and maps the answer onto the taxonomy.
+// By default every object in the photo is asked for; the route falls back to a single
+// classification when the provider cannot detect objects.
+export async function requestClassification(
+  imageData: string,
+  mode: ClassifyMode = "detect",
+): Promise<ClassificationResult[]> {
+  const image = dataUrlToBlob(imageData)
+  const response = await postClassification(image, mode)
+  const results = processResponse(response)
+  if (results.length === 0) {
+    throw new ClassifyRequestError("no_match", "The provider did not recognise anything in the image")
+  }
+  if (response.mode === "detect" && results.length === 1 && results[0].confidence < LOW_CONFIDENCE_THRESHOLD) {
+    return [await withCandidates(image, results[0])]
+  }
+  return results
+}
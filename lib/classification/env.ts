@@ -0,0 +1,22 @@
+import { logger } from "@/lib/logger"
+
+// Anything that isn't a finite number falls back to the default, so a typo can't
+// quietly turn a limit or interval into NaN. Client code passes the value itself,
+// since Next only inlines NEXT_PUBLIC_ variables that are read by their full name.
+export function numberSetting(value: string | undefined, fallback: number, name?: string) {
+  const raw = value?.trim()
+  if (!raw) {
+    return fallback
+  }
+  const parsed = Number(raw)
+  if (!Number.isFinite(parsed)) {
+    logger.warn("ignoring non-numeric setting", { name, fallback })
+    return fallback
+  }
+  return parsed
+}
+
+// Numeric server settings, read by name
+export function envNumber(name: string, fallback: number) {
+  return numberSetting(process.env[name], fallback, name)
+}
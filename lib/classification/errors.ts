@@ -0,0 +1,93 @@
+export const CLASSIFICATION_ERROR_CODES = [
+  "invalid_request",
+  "invalid_image",
+  "image_too_large",
+  "unsupported_media_type",
+  "no_match",
+  "provider_unavailable",
+  "rate_limited",
+  "quota_exceeded",
+  "timeout",
+] as const
+
+export type ClassificationErrorCode = (typeof CLASSIFICATION_ERROR_CODES)[number]
+
+export interface ClassificationErrorBody {
+  error: {
+    code: ClassificationErrorCode
+    message: string
+  }
+}
+
+const HTTP_STATUS: Record<ClassificationErrorCode, number> = {
+  invalid_request: 400,
+  invalid_image: 400,
+  image_too_large: 413,
+  unsupported_media_type: 415,
+  no_match: 422,
+  provider_unavailable: 503,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  timeout: 504,
+}
+
+export class ClassificationError extends Error {
+  constructor(
+    readonly code: ClassificationErrorCode,
+    message: string,
+    // Sent as Retry-After for rate_limited and quota_exceeded
+    readonly retryAfterSeconds?: number,
+  ) {
+    super(message)
+    this.name = "ClassificationError"
+  }
+
+  get status(): number {
+    return HTTP_STATUS[this.code]
+  }
+
+  toJSON(): ClassificationErrorBody {
+    return { error: { code: this.code, message: this.message } }
+  }
+}
+
+function codeForStatus(status?: number): ClassificationErrorCode {
+  switch (status) {
+    case 400:
+    case 413:
+    case 415:
+    case 422:
+      return "invalid_image"
+    case 402:
+    case 429:
+      return "quota_exceeded"
+    case 408:
+    case 504:
+      return "timeout"
+    default:
+      return "provider_unavailable"
+  }
+}
+
+export class ProviderError extends ClassificationError {
+  constructor(
+    readonly provider: string,
+    message: string,
+    readonly providerStatus?: number,
+  ) {
+    super(codeForStatus(providerStatus), message)
+    this.name = "ProviderError"
+  }
+}
+
+// Anything thrown while classifying ends up here so the route always answers
+// with one of the documented codes instead of a made-up result.
+export function toClassificationError(error: unknown): ClassificationError {
+  if (error instanceof ClassificationError) {
+    return error
+  }
+  if (error instanceof Error && (error.name === "AbortError" || error.name === "TimeoutError")) {
+    return new ClassificationError("timeout", "The classification provider took too long to respond")
+  }
+  return new ClassificationError("provider_unavailable", "The classification provider is unavailable")
+}
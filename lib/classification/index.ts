@@ -0,0 +1,144 @@
+import { taxonomy } from "@/lib/taxonomy"
+import { envNumber } from "./env"
+import { ClassificationError } from "./errors"
+import { createOpenAICompatibleProvider } from "./providers/openai-compatible"
+import { createSelfHostedProvider } from "./providers/self-hosted"
+import { createXimilarProvider } from "./providers/ximilar"
+import { createCircuitBreaker, withResilience, type CircuitBreaker, type CircuitStatus } from "./resilience"
+import { createProviderStats, type ProviderStats, type ProviderStatsSummary } from "./stats"
+import type { ClassificationProvider } from "./types"
+
+export * from "./errors"
+export * from "./types"
+
+export type ProviderName = "ximilar" | "openai-compatible" | "self-hosted"
+
+export const PROVIDER_NAMES: ProviderName[] = ["ximilar", "openai-compatible", "self-hosted"]
+
+// Settings without which createProvider() refuses to build the adapter
+const REQUIRED_ENV: Record<ProviderName, string[]> = {
+  ximilar: ["XIMILAR_API_TOKEN"],
+  "openai-compatible": ["OPENAI_COMPATIBLE_BASE_URL", "OPENAI_COMPATIBLE_MODEL"],
+  "self-hosted": ["SELF_HOSTED_MODEL_URL"],
+}
+
+// Vision LLMs are much slower than a dedicated classifier
+const DEFAULT_TIMEOUT_MS: Record<ProviderName, number> = {
+  ximilar: 10_000,
+  "openai-compatible": 30_000,
+  "self-hosted": 15_000,
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    throw new ClassificationError(
+      "provider_unavailable",
+      `${name} must be set for the configured classification provider`,
+    )
+  }
+  return value
+}
+
+export function createProvider(name: string): ClassificationProvider {
+  switch (name) {
+    case "ximilar":
+      return createXimilarProvider({
+        token: requireEnv("XIMILAR_API_TOKEN"),
+        endpoint: process.env.XIMILAR_API_URL,
+        detectionTaskId: process.env.XIMILAR_DETECTION_TASK_ID,
+        detectionEndpoint: process.env.XIMILAR_DETECTION_API_URL,
+      })
+    case "openai-compatible":
+      return createOpenAICompatibleProvider({
+        baseUrl: requireEnv("OPENAI_COMPATIBLE_BASE_URL"),
+        model: requireEnv("OPENAI_COMPATIBLE_MODEL"),
+        apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+        vocabulary: taxonomy.items.map((item) => item.id),
+      })
+    case "self-hosted":
+      return createSelfHostedProvider({
+        url: requireEnv("SELF_HOSTED_MODEL_URL"),
+        token: process.env.SELF_HOSTED_MODEL_TOKEN,
+      })
+    default:
+      throw new ClassificationError("provider_unavailable", `Unknown classification provider "${name}"`)
+  }
+}
+
+// Breakers and call stats outlive a single request and must be shared by every
+// route handler, which Next bundles separately, so the registry lives on globalThis
+interface ProviderState {
+  breaker: CircuitBreaker
+  stats: ProviderStats
+}
+
+const globalRegistry = globalThis as typeof globalThis & { __tapontamaProviders?: Map<string, ProviderState> }
+const providerStates = (globalRegistry.__tapontamaProviders ??= new Map<string, ProviderState>())
+
+function stateFor(name: string): ProviderState {
+  let state = providerStates.get(name)
+  if (!state) {
+    state = {
+      breaker: createCircuitBreaker({
+        failureThreshold: envNumber("CLASSIFY_BREAKER_THRESHOLD", 5),
+        resetTimeoutMs: envNumber("CLASSIFY_BREAKER_RESET_SECONDS", 30) * 1000,
+      }),
+      stats: createProviderStats(),
+    }
+    providerStates.set(name, state)
+  }
+  return state
+}
+
+function timeoutFor(name: string) {
+  const envPrefix = name.toUpperCase().replace(/-/g, "_")
+  return envNumber(`${envPrefix}_TIMEOUT_MS`, DEFAULT_TIMEOUT_MS[name as ProviderName] ?? 15_000)
+}
+
+// Timeouts are set per provider, e.g. XIMILAR_TIMEOUT_MS or OPENAI_COMPATIBLE_TIMEOUT_MS
+export function getResilientProvider(name: string): ClassificationProvider {
+  return withResilience(createProvider(name), {
+    timeoutMs: timeoutFor(name),
+    retries: envNumber("CLASSIFY_PROVIDER_RETRIES", 2),
+    baseDelayMs: envNumber("CLASSIFY_RETRY_BASE_DELAY_MS", 300),
+    ...stateFor(name),
+  })
+}
+
+// CLASSIFICATION_PROVIDER picks the adapter; Ximilar stays the default so existing
+// deployments keep working with only XIMILAR_API_TOKEN set. CLASSIFICATION_FALLBACK_PROVIDER
+// is tried when the primary is down, timing out or has its circuit open.
+export function getProviderChain(): string[] {
+  const primary = process.env.CLASSIFICATION_PROVIDER ?? "ximilar"
+  const fallback = process.env.CLASSIFICATION_FALLBACK_PROVIDER
+  return fallback && fallback !== primary ? [primary, fallback] : [primary]
+}
+
+export interface ProviderStatus {
+  name: ProviderName
+  role: "primary" | "fallback" | null
+  // Only whether the required settings are present; values are never reported
+  configured: boolean
+  missingEnv: string[]
+  timeoutMs: number
+  circuit: CircuitStatus
+  recent: ProviderStatsSummary
+}
+
+export function getProviderStatuses(): ProviderStatus[] {
+  const [primary, fallback] = getProviderChain()
+  return PROVIDER_NAMES.map((name) => {
+    const missingEnv = REQUIRED_ENV[name].filter((env) => !process.env[env])
+    const { breaker, stats } = stateFor(name)
+    return {
+      name,
+      role: name === primary ? "primary" : name === fallback ? "fallback" : null,
+      configured: missingEnv.length === 0,
+      missingEnv,
+      timeoutMs: timeoutFor(name),
+      circuit: breaker.status(),
+      recent: stats.summary(),
+    }
+  })
+}
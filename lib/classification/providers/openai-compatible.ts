@@ -0,0 +1,118 @@
+import { z } from "zod"
+import { ProviderError } from "../errors"
+import { classificationLabelSchema, detectedObjectSchema } from "../schema"
+import type {
+  ClassificationImage,
+  ClassificationLabel,
+  ClassificationProvider,
+  DetectedObject,
+  ProviderCallOptions,
+} from "../types"
+import { parseProviderResponse } from "./parse"
+
+export interface OpenAICompatibleOptions {
+  // Base URL up to and including the version segment, e.g. https://api.openai.com/v1
+  baseUrl: string
+  model: string
+  apiKey?: string
+  // Labels the model should choose from; free-form snake_case labels when omitted
+  vocabulary?: string[]
+}
+
+const completionSchema = z.object({
+  choices: z.array(z.object({ message: z.object({ content: z.string().nullable() }) })).min(1),
+})
+
+// What the model is asked to put in the message content
+const labelsAnswerSchema = z.object({ labels: z.array(classificationLabelSchema).default([]) })
+const objectsAnswerSchema = z.object({ objects: z.array(detectedObjectSchema).default([]) })
+
+function labelRule(vocabulary?: string[]) {
+  return vocabulary?.length ? `Only use these labels: ${vocabulary.join(", ")}. ` : "Use lowercase snake_case labels. "
+}
+
+function buildPrompt(vocabulary?: string[]) {
+  return (
+    "Identify the waste item in this photo. Reply with JSON only, in the form " +
+    '{"labels":[{"label":"plastic_bottle","prob":0.9}]}. ' +
+    labelRule(vocabulary) +
+    "List at most 5 candidates ordered by probability, and use probabilities between 0 and 1."
+  )
+}
+
+function buildDetectionPrompt(vocabulary?: string[]) {
+  return (
+    "Find every separate waste item in this photo. Reply with JSON only, in the form " +
+    '{"objects":[{"label":"plastic_bottle","prob":0.9,"box":{"x":0.1,"y":0.2,"width":0.3,"height":0.4}}]}. ' +
+    labelRule(vocabulary) +
+    "Box coordinates are fractions of the image size measured from the top-left corner. " +
+    "List at most 10 objects and use probabilities between 0 and 1."
+  )
+}
+
+export function createOpenAICompatibleProvider({
+  baseUrl,
+  model,
+  apiKey,
+  vocabulary,
+}: OpenAICompatibleOptions): ClassificationProvider {
+  const complete = async <T extends z.ZodTypeAny>(
+    prompt: string,
+    image: ClassificationImage,
+    answerSchema: T,
+    { signal }: ProviderCallOptions = {},
+  ) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: prompt },
+              { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.base64}` } },
+            ],
+          },
+        ],
+      }),
+    })
+
+    if (!response.ok) {
+      throw new ProviderError("openai-compatible", `Vision endpoint error: ${response.status}`, response.status)
+    }
+
+    const { choices } = parseProviderResponse("openai-compatible", completionSchema, await response.json())
+    const content = choices[0].message.content ?? ""
+
+    let answer: unknown
+    try {
+      // Some servers wrap JSON output in a markdown fence even in JSON mode
+      answer = JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ""))
+    } catch {
+      throw new ProviderError("openai-compatible", "Vision endpoint returned a non-JSON answer")
+    }
+    return parseProviderResponse("openai-compatible", answerSchema, answer)
+  }
+
+  return {
+    name: "openai-compatible",
+    async classify(image: ClassificationImage, options?: ProviderCallOptions): Promise<ClassificationLabel[]> {
+      const { labels } = await complete(buildPrompt(vocabulary), image, labelsAnswerSchema, options)
+      return labels.map(({ label, prob }) => ({ label, prob }))
+    },
+    async detect(image: ClassificationImage, options?: ProviderCallOptions): Promise<DetectedObject[]> {
+      const { objects } = await complete(buildDetectionPrompt(vocabulary), image, objectsAnswerSchema, options)
+      return objects.map(({ label, prob, box }) => ({ label, prob, box }))
+    },
+  }
+}
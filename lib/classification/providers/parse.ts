@@ -0,0 +1,13 @@
+import type { z } from "zod"
+import { ProviderError } from "../errors"
+import { formatIssues } from "../schema"
+
+// Provider responses are validated before use so a changed or broken upstream
+// API surfaces as provider_unavailable instead of a crash or a wrong answer.
+export function parseProviderResponse<T extends z.ZodTypeAny>(provider: string, schema: T, data: unknown): z.infer<T> {
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    throw new ProviderError(provider, `Unexpected ${provider} response: ${formatIssues(parsed.error)}`)
+  }
+  return parsed.data
+}
@@ -0,0 +1,58 @@
+import { z } from "zod"
+import { ProviderError } from "../errors"
+import { classificationLabelSchema, detectedObjectSchema } from "../schema"
+import type {
+  ClassificationImage,
+  ClassificationLabel,
+  ClassificationProvider,
+  DetectedObject,
+  ProviderCallOptions,
+} from "../types"
+import { parseProviderResponse } from "./parse"
+
+export interface SelfHostedOptions {
+  url: string
+  token?: string
+}
+
+// Talks to a model server that accepts {"image": <base64>, "mime_type": <type>, "mode": "classify" | "detect"}
+// and answers {"labels": [{"label": string, "prob": number}]} for classify, or
+// {"objects": [{"label": string, "prob": number, "box": {"x", "y", "width", "height"}}]}
+// with normalized box coordinates for detect.
+const classifyResponseSchema = z.object({ labels: z.array(classificationLabelSchema).default([]) })
+const detectResponseSchema = z.object({ objects: z.array(detectedObjectSchema).default([]) })
+
+export function createSelfHostedProvider({ url, token }: SelfHostedOptions): ClassificationProvider {
+  const post = async (image: ClassificationImage, mode: "classify" | "detect", { signal }: ProviderCallOptions = {}) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (token) {
+      headers.Authorization = `Bearer ${token}`
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers,
+      signal,
+      body: JSON.stringify({ image: image.base64, mime_type: image.mimeType, mode }),
+    })
+
+    if (!response.ok) {
+      throw new ProviderError("self-hosted", `Model server error: ${response.status}`, response.status)
+    }
+    return response.json() as Promise<unknown>
+  }
+
+  return {
+    name: "self-hosted",
+    async classify(image: ClassificationImage, options?: ProviderCallOptions): Promise<ClassificationLabel[]> {
+      const result = await post(image, "classify", options)
+      const { labels } = parseProviderResponse("self-hosted", classifyResponseSchema, result)
+      return labels.map(({ label, prob }) => ({ label, prob }))
+    },
+    async detect(image: ClassificationImage, options?: ProviderCallOptions): Promise<DetectedObject[]> {
+      const result = await post(image, "detect", options)
+      const { objects } = parseProviderResponse("self-hosted", detectResponseSchema, result)
+      return objects.map(({ label, prob, box }) => ({ label, prob, box }))
+    },
+  }
+}
@@ -0,0 +1,117 @@
+import { z } from "zod"
+import { ProviderError } from "../errors"
+import type {
+  ClassificationImage,
+  ClassificationLabel,
+  ClassificationProvider,
+  DetectedObject,
+  ProviderCallOptions,
+} from "../types"
+import { parseProviderResponse } from "./parse"
+
+const DEFAULT_ENDPOINT = "https://api.ximilar.com/recognition/v2/classify/"
+const DEFAULT_DETECTION_ENDPOINT = "https://api.ximilar.com/detection/v2/detect/"
+
+export interface XimilarOptions {
+  token: string
+  endpoint?: string
+  // Detection needs a trained Ximilar detection task; without one only classify() is offered
+  detectionTaskId?: string
+  detectionEndpoint?: string
+}
+
+const classifyResponseSchema = z.object({
+  records: z
+    .array(
+      z.object({
+        outputs: z.array(z.object({ label: z.string(), prob: z.number() })).default([]),
+      }),
+    )
+    .min(1),
+})
+
+const detectResponseSchema = z.object({
+  records: z
+    .array(
+      z.object({
+        _width: z.number().positive(),
+        _height: z.number().positive(),
+        _objects: z
+          .array(
+            z.object({
+              name: z.string(),
+              prob: z.number(),
+              // Pixel coordinates: [x1, y1, x2, y2]
+              bound_box: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+            }),
+          )
+          .default([]),
+      }),
+    )
+    .min(1),
+})
+
+export function createXimilarProvider({
+  token,
+  endpoint = DEFAULT_ENDPOINT,
+  detectionTaskId,
+  detectionEndpoint = DEFAULT_DETECTION_ENDPOINT,
+}: XimilarOptions): ClassificationProvider {
+  const post = async (url: string, body: object, { signal }: ProviderCallOptions = {}) => {
+    const response = await fetch(url, {
+      method: "POST",
+      signal,
+      headers: {
+        Authorization: `Token ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      throw new ProviderError("ximilar", `Ximilar API error: ${response.status}`, response.status)
+    }
+    return response.json() as Promise<unknown>
+  }
+
+  const provider: ClassificationProvider = {
+    name: "ximilar",
+    async classify(image: ClassificationImage, options?: ProviderCallOptions): Promise<ClassificationLabel[]> {
+      const result = await post(
+        endpoint,
+        {
+          records: [
+            {
+              _base64: image.base64,
+            },
+          ],
+        },
+        options,
+      )
+      const { records } = parseProviderResponse("ximilar", classifyResponseSchema, result)
+      return records[0].outputs.map(({ label, prob }) => ({ label, prob }))
+    },
+  }
+
+  if (detectionTaskId) {
+    provider.detect = async (image: ClassificationImage, options?: ProviderCallOptions): Promise<DetectedObject[]> => {
+      const result = await post(
+        detectionEndpoint,
+        {
+          task_id: detectionTaskId,
+          records: [{ _base64: image.base64 }],
+        },
+        options,
+      )
+      const { records } = parseProviderResponse("ximilar", detectResponseSchema, result)
+      const { _width: width, _height: height, _objects: objects } = records[0]
+      return objects.map(({ name, prob, bound_box: [x1, y1, x2, y2] }) => ({
+        label: name,
+        prob,
+        box: { x: x1 / width, y: y1 / height, width: (x2 - x1) / width, height: (y2 - y1) / height },
+      }))
+    }
+  }
+
+  return provider
+}
@@ -0,0 +1,190 @@
+import { logger } from "@/lib/logger"
+import { envNumber } from "./env"
+import { ClassificationError } from "./errors"
+
+export interface RateLimit {
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  retryAfterSeconds: number
+}
+
+export interface RateLimiter {
+  hit(key: string): RateLimitResult
+}
+
+// Keys whose window has ended are swept once the map grows past this
+const SWEEP_THRESHOLD = 10_000
+
+// Fixed-window counter kept in memory, so limits apply per server instance
+export function createRateLimiter({ limit, windowMs }: RateLimit): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return {
+    hit(key) {
+      const now = Date.now()
+      if (windows.size > SWEEP_THRESHOLD) {
+        for (const [windowKey, window] of windows) {
+          if (window.resetAt <= now) {
+            windows.delete(windowKey)
+          }
+        }
+      }
+
+      let window = windows.get(key)
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs }
+        windows.set(key, window)
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) }
+      }
+      window.count++
+      return { allowed: true, retryAfterSeconds: 0 }
+    },
+  }
+}
+
+// Caps paid provider calls per UTC day across all users; resets at midnight UTC
+export function createDailyBudget(limit: number): RateLimiter {
+  let day = ""
+  let used = 0
+
+  return {
+    hit() {
+      const now = new Date()
+      const today = now.toISOString().slice(0, 10)
+      if (today !== day) {
+        day = today
+        used = 0
+      }
+      if (used >= limit) {
+        const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+        return { allowed: false, retryAfterSeconds: Math.ceil((midnight - now.getTime()) / 1000) }
+      }
+      used++
+      return { allowed: true, retryAfterSeconds: 0 }
+    },
+  }
+}
+
+// Anonymous cookie the API routes use to limit browsers per session
+export const SESSION_COOKIE = "tapontama_session"
+
+export interface RequestLimits {
+  check(ip: string | null, sessionId: string | null): RateLimitResult
+}
+
+// Per-IP and per-session windows read from <PREFIX>_IP_LIMIT, <PREFIX>_IP_WINDOW_SECONDS,
+// <PREFIX>_SESSION_LIMIT and <PREFIX>_SESSION_WINDOW_SECONDS. A limit of 0 turns the
+// corresponding check off. Sessions are a cookie the client can drop, so the per-IP
+// limit is the backstop where the client address is known. Requests with neither
+// share one bucket (<PREFIX>_ANONYMOUS_LIMIT), so a script can't simply drop cookies.
+export function createRequestLimits(
+  envPrefix: string,
+  defaults: { ipLimit: number; sessionLimit: number; anonymousLimit?: number; windowSeconds: number },
+): RequestLimits {
+  const ipLimit = envNumber(`${envPrefix}_IP_LIMIT`, defaults.ipLimit)
+  const sessionLimit = envNumber(`${envPrefix}_SESSION_LIMIT`, defaults.sessionLimit)
+  const anonymousLimit = envNumber(`${envPrefix}_ANONYMOUS_LIMIT`, defaults.anonymousLimit ?? 0)
+  const ipLimiter =
+    ipLimit > 0
+      ? createRateLimiter({
+          limit: ipLimit,
+          windowMs: envNumber(`${envPrefix}_IP_WINDOW_SECONDS`, defaults.windowSeconds) * 1000,
+        })
+      : null
+  const sessionLimiter =
+    sessionLimit > 0
+      ? createRateLimiter({
+          limit: sessionLimit,
+          windowMs: envNumber(`${envPrefix}_SESSION_WINDOW_SECONDS`, defaults.windowSeconds) * 1000,
+        })
+      : null
+  const anonymousLimiter =
+    anonymousLimit > 0 ? createRateLimiter({ limit: anonymousLimit, windowMs: defaults.windowSeconds * 1000 }) : null
+
+  return {
+    check(ip, sessionId) {
+      const blocked: RateLimitResult[] = []
+      for (const result of [
+        ip ? ipLimiter?.hit(`ip:${ip}`) : undefined,
+        sessionId ? sessionLimiter?.hit(`session:${sessionId}`) : undefined,
+        !ip && !sessionId ? anonymousLimiter?.hit("anonymous") : undefined,
+      ]) {
+        if (result && !result.allowed) {
+          blocked.push(result)
+        }
+      }
+      return blocked.length > 0
+        ? { allowed: false, retryAfterSeconds: Math.max(...blocked.map((result) => result.retryAfterSeconds)) }
+        : { allowed: true, retryAfterSeconds: 0 }
+    },
+  }
+}
+
+const classifyLimits = createRequestLimits("CLASSIFY", {
+  ipLimit: 30,
+  sessionLimit: 10,
+  anonymousLimit: 20,
+  windowSeconds: 60,
+})
+const DAILY_BUDGET = envNumber("CLASSIFY_DAILY_BUDGET", 2000)
+const dailyBudget = DAILY_BUDGET > 0 ? createDailyBudget(DAILY_BUDGET) : null
+
+// Route handlers can't see the socket address, so deployments must say where the client
+// address comes from. Set one of these in production, or the per-IP limits never apply
+// and one client rotating session cookies can use up the whole daily budget:
+// - CLIENT_IP_HEADER: a header the platform overwrites on every request, e.g.
+//   x-vercel-forwarded-for, cf-connecting-ip or fly-client-ip
+// - TRUSTED_PROXY_HOPS: how many reverse proxies in front of the app append to
+//   X-Forwarded-For
+const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER?.trim().toLowerCase() || null
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(envNumber("TRUSTED_PROXY_HOPS", 0)))
+
+if (process.env.NODE_ENV === "production" && !CLIENT_IP_HEADER && TRUSTED_PROXY_HOPS === 0) {
+  logger.warn("client addresses are unknown, so per-IP rate limits are off; set CLIENT_IP_HEADER or TRUSTED_PROXY_HOPS")
+}
+
+// Everything left of the entry our outermost trusted proxy appended was sent by the
+// client and can be forged. Without either setting null is returned, since every
+// visitor would otherwise share one "unknown" bucket.
+export function clientIp(headers: Headers): string | null {
+  if (CLIENT_IP_HEADER) {
+    return headers.get(CLIENT_IP_HEADER)?.split(",")[0].trim() || null
+  }
+  if (TRUSTED_PROXY_HOPS === 0) {
+    return null
+  }
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  return forwarded.length >= TRUSTED_PROXY_HOPS ? forwarded[forwarded.length - TRUSTED_PROXY_HOPS] : null
+}
+
+export function checkRequestLimits(ip: string | null, sessionId: string | null) {
+  const result = classifyLimits.check(ip, sessionId)
+  if (!result.allowed) {
+    throw new ClassificationError(
+      "rate_limited",
+      "Too many classification requests; please wait before trying again",
+      result.retryAfterSeconds,
+    )
+  }
+}
+
+// Called right before a provider request, so cache hits don't count against the budget
+export function consumeProviderBudget() {
+  const result = dailyBudget?.hit("daily")
+  if (result && !result.allowed) {
+    throw new ClassificationError(
+      "quota_exceeded",
+      "The daily classification budget has been used up",
+      result.retryAfterSeconds,
+    )
+  }
+}
@@ -0,0 +1,155 @@
+import { ClassificationError, ProviderError } from "./errors"
+import type { ProviderStats } from "./stats"
+import type { ClassificationImage, ClassificationProvider, ProviderCallOptions } from "./types"
+
+export type CircuitState = "closed" | "open" | "half-open"
+
+export interface CircuitBreakerOptions {
+  // Consecutive failed calls before the circuit opens
+  failureThreshold: number
+  // How long an open circuit rejects calls before letting a trial call through
+  resetTimeoutMs: number
+}
+
+export interface CircuitStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: number | null
+}
+
+export interface CircuitBreaker {
+  status(): CircuitStatus
+  // Throws while the circuit is open so callers skip the provider entirely
+  assertClosed(provider: string): void
+  recordSuccess(): void
+  recordFailure(): void
+}
+
+export function createCircuitBreaker({ failureThreshold, resetTimeoutMs }: CircuitBreakerOptions): CircuitBreaker {
+  let consecutiveFailures = 0
+  let openedAt: number | null = null
+  let trialInFlight = false
+
+  const state = (): CircuitState => {
+    if (openedAt === null) {
+      return "closed"
+    }
+    return Date.now() - openedAt >= resetTimeoutMs ? "half-open" : "open"
+  }
+
+  return {
+    status: () => ({ state: state(), consecutiveFailures, openedAt }),
+    assertClosed(provider) {
+      const current = state()
+      // Half-open lets a single trial call through; its outcome closes or reopens the circuit
+      if (current === "open" || (current === "half-open" && trialInFlight)) {
+        throw new ClassificationError("provider_unavailable", `${provider} is failing; calls are paused for now`)
+      }
+      if (current === "half-open") {
+        trialInFlight = true
+      }
+    },
+    recordSuccess() {
+      consecutiveFailures = 0
+      openedAt = null
+      trialInFlight = false
+    },
+    recordFailure() {
+      consecutiveFailures++
+      if (trialInFlight || consecutiveFailures >= failureThreshold) {
+        openedAt = Date.now()
+      }
+      trialInFlight = false
+    },
+  }
+}
+
+// Network errors, timeouts and 5xx answers are worth another attempt; bad input,
+// quota errors and malformed responses will fail the same way again.
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return error.providerStatus === 408 || (error.providerStatus ?? 0) >= 500
+  }
+  if (error instanceof ClassificationError) {
+    return false
+  }
+  return error instanceof Error && (error.name === "TimeoutError" || error.name === "TypeError")
+}
+
+// Failures that say something about the provider's health, as opposed to the photo
+function isProviderFailure(error: unknown): boolean {
+  return (
+    isTransientError(error) ||
+    (error instanceof ProviderError && (error.code === "provider_unavailable" || error.code === "timeout"))
+  )
+}
+
+export interface RetryOptions {
+  retries: number
+  baseDelayMs: number
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Exponential backoff with full jitter so retries from many requests don't line up
+export async function withRetries<T>(fn: () => Promise<T>, { retries, baseDelayMs }: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error
+      }
+      await sleep(Math.random() * baseDelayMs * 2 ** attempt)
+    }
+  }
+}
+
+export interface ResilienceOptions extends RetryOptions {
+  // Applies to each attempt, not to the call as a whole
+  timeoutMs: number
+  breaker: CircuitBreaker
+  stats?: ProviderStats
+}
+
+// Wraps a provider with a per-attempt timeout, bounded retries and a circuit breaker
+export function withResilience(
+  provider: ClassificationProvider,
+  { timeoutMs, breaker, stats, ...retry }: ResilienceOptions,
+): ClassificationProvider {
+  const attempt = async <T>(run: (options: ProviderCallOptions) => Promise<T>): Promise<T> => {
+    const startedAt = Date.now()
+    try {
+      const result = await run({ signal: AbortSignal.timeout(timeoutMs) })
+      stats?.record(Date.now() - startedAt, true)
+      return result
+    } catch (error) {
+      stats?.record(Date.now() - startedAt, !isProviderFailure(error))
+      throw error
+    }
+  }
+
+  const call = async <T>(run: (options: ProviderCallOptions) => Promise<T>): Promise<T> => {
+    breaker.assertClosed(provider.name)
+    try {
+      const result = await withRetries(() => attempt(run), retry)
+      breaker.recordSuccess()
+      return result
+    } catch (error) {
+      if (isProviderFailure(error)) {
+        breaker.recordFailure()
+      } else {
+        // The provider answered; the request itself was the problem
+        breaker.recordSuccess()
+      }
+      throw error
+    }
+  }
+
+  const { detect } = provider
+  return {
+    name: provider.name,
+    classify: (image: ClassificationImage) => call((options) => provider.classify(image, options)),
+    detect: detect && ((image: ClassificationImage) => call((options) => detect.call(provider, image, options))),
+  }
+}
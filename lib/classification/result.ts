@@ -0,0 +1,127 @@
+import { logger } from "@/lib/logger"
+import {
+  getTaxonomyItem,
+  hasClarification,
+  type ClarificationOutcome,
+  type ClarificationStep,
+  type HazardFlag,
+  type TaxonomyItem,
+  type WasteCategory,
+} from "@/lib/taxonomy"
+import type { ClassificationSource, ClassifiedLabel, ClassifiedObject, ClassifyResponse } from "./schema"
+import type { BoundingBox } from "./types"
+
+export type { ClassificationSource, ClassifiedLabel, ClassifiedObject, ClassifyResponse } from "./schema"
+
+// Client-facing result types, shared by the app screens and on-device storage
+
+// Below this the result card asks the user to pick from the top candidates, and
+// items with follow-up questions ask them
+export const LOW_CONFIDENCE_THRESHOLD = 60
+
+const CANDIDATE_COUNT = 3
+
+export interface ClassificationCandidate {
+  itemId: string
+  item: string
+  type: WasteCategory
+  confidence: number
+}
+
+export interface ClassificationResult {
+  type: WasteCategory
+  confidence: number
+  itemId: string
+  item: string
+  hazards: HazardFlag[]
+  source: ClassificationSource
+  // Where the item is in the photo, for detection results
+  box?: BoundingBox
+  // Best few distinct items, this one included, for classification results
+  candidates?: ClassificationCandidate[]
+  // Set when the user chose the item from the candidates of an uncertain result
+  pickedFromCandidates?: boolean
+  // Answers to the item's follow-up questions; set once the user finished or skipped them
+  clarification?: {
+    steps: ClarificationStep[]
+    outcome: ClarificationOutcome
+  }
+}
+
+export function toResult(item: TaxonomyItem, confidence: number, source: ClassificationSource): ClassificationResult {
+  return {
+    type: item.category,
+    confidence,
+    itemId: item.id,
+    item: item.name,
+    hazards: item.hazards,
+    source,
+  }
+}
+
+// Items with follow-up questions ask them when the photo alone is not conclusive,
+// or always when the item says so. A pick from the candidates settles which item it
+// is but not its condition, so the questions still follow. Demo results are never refined.
+export function needsClarification(result: ClassificationResult): boolean {
+  const item = getTaxonomyItem(result.itemId)
+  if (!item || !hasClarification(item) || result.clarification || result.source === "demo") {
+    return false
+  }
+  return item.alwaysAsk === true || result.pickedFromCandidates === true || result.confidence < LOW_CONFIDENCE_THRESHOLD
+}
+
+// Picks the highest confidence label that maps to a taxonomy item and keeps the
+// runners-up as candidates; labels we have no disposal guidance for are skipped
+// rather than guessed.
+export function processLabels(
+  labels: ClassifiedLabel[],
+  source: ClassificationSource = "provider",
+): ClassificationResult | null {
+  // Several provider labels can resolve to the same item; keep its best score
+  const best = new Map<string, { item: TaxonomyItem; prob: number }>()
+  for (const label of labels) {
+    const item = label.itemId ? getTaxonomyItem(label.itemId) : undefined
+    if (item && label.prob > (best.get(item.id)?.prob ?? -1)) {
+      best.set(item.id, { item, prob: label.prob })
+    }
+  }
+  const ranked = Array.from(best.values()).sort((a, b) => b.prob - a.prob)
+  const [topPrediction] = ranked
+
+  logger.debug("top prediction", { itemId: topPrediction?.item.id, prob: topPrediction?.prob })
+
+  if (!topPrediction) {
+    return null
+  }
+
+  return {
+    ...toResult(topPrediction.item, Math.round(topPrediction.prob * 100), source),
+    candidates: ranked.slice(0, CANDIDATE_COUNT).map(({ item, prob }) => ({
+      itemId: item.id,
+      item: item.name,
+      type: item.category,
+      confidence: Math.round(prob * 100),
+    })),
+  }
+}
+
+// Detections below this are usually background clutter rather than something the user is holding up
+const MIN_OBJECT_PROB = 0.3
+
+export function processObjects(objects: ClassifiedObject[]): ClassificationResult[] {
+  return objects.flatMap((object) => {
+    const item = object.itemId ? getTaxonomyItem(object.itemId) : undefined
+    if (!item || object.prob < MIN_OBJECT_PROB) {
+      return []
+    }
+    return [{ ...toResult(item, Math.round(object.prob * 100), "provider"), box: object.box }]
+  })
+}
+
+export function processResponse(response: ClassifyResponse): ClassificationResult[] {
+  if (response.mode === "detect") {
+    return processObjects(response.objects)
+  }
+  const result = processLabels(response.labels)
+  return result ? [result] : []
+}
@@ -0,0 +1,70 @@
+import { z } from "zod"
+import { CLASSIFICATION_ERROR_CODES } from "./errors"
+
+// Wire format of /api/classify-waste, shared by the route, the app and other
+// clients. Provider-specific response shapes live next to each adapter.
+
+export const boundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+})
+
+export const classificationLabelSchema = z.object({
+  label: z.string().min(1),
+  prob: z.number().min(0).max(1),
+})
+
+export const detectedObjectSchema = classificationLabelSchema.extend({
+  box: boundingBoxSchema,
+})
+
+// Request
+
+export const classifyModeSchema = z.enum(["classify", "detect"])
+
+// Legacy Ximilar-shaped form field: records=[{"_base64": "..."}]
+export const recordsSchema = z.array(z.object({ _base64: z.string().min(1) })).min(1)
+
+// Response
+
+const classifiedLabelSchema = classificationLabelSchema.extend({
+  // null when the provider label has no taxonomy item
+  itemId: z.string().nullable(),
+})
+
+const classifiedObjectSchema = classifiedLabelSchema.extend({
+  box: boundingBoxSchema,
+})
+
+const responseMetaSchema = z.object({
+  provider: z.string(),
+  taxonomyVersion: z.string(),
+  // True when the answer was served from the result cache without calling the provider
+  cached: z.boolean(),
+})
+
+export const classifyResponseSchema = z.discriminatedUnion("mode", [
+  responseMetaSchema.extend({ mode: z.literal("classify"), labels: z.array(classifiedLabelSchema) }),
+  responseMetaSchema.extend({ mode: z.literal("detect"), objects: z.array(classifiedObjectSchema) }),
+])
+
+export const classificationErrorBodySchema = z.object({
+  error: z.object({
+    code: z.enum(CLASSIFICATION_ERROR_CODES),
+    message: z.string(),
+  }),
+})
+
+export const classificationSourceSchema = z.enum(["provider", "manual", "demo"])
+
+export type ClassifyMode = z.infer<typeof classifyModeSchema>
+export type ClassifiedLabel = z.infer<typeof classifiedLabelSchema>
+export type ClassifiedObject = z.infer<typeof classifiedObjectSchema>
+export type ClassifyResponse = z.infer<typeof classifyResponseSchema>
+export type ClassificationSource = z.infer<typeof classificationSourceSchema>
+
+export function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ")
+}
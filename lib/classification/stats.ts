@@ -0,0 +1,55 @@
+// Rolling record of recent provider calls for the health endpoint. Only the last
+// few minutes matter to on-call, so older samples are dropped.
+const MAX_SAMPLES = 100
+const MAX_AGE_MS = 15 * 60 * 1000
+
+export interface ProviderStatsSummary {
+  // Attempts in the window, including retries
+  calls: number
+  errorRate: number | null
+  averageLatencyMs: number | null
+  p95LatencyMs: number | null
+  lastSuccessAt: number | null
+  lastErrorAt: number | null
+}
+
+export interface ProviderStats {
+  record(latencyMs: number, ok: boolean): void
+  summary(): ProviderStatsSummary
+}
+
+export function createProviderStats(): ProviderStats {
+  let samples: { at: number; latencyMs: number; ok: boolean }[] = []
+  let lastSuccessAt: number | null = null
+  let lastErrorAt: number | null = null
+
+  return {
+    record(latencyMs, ok) {
+      const at = Date.now()
+      samples.push({ at, latencyMs, ok })
+      if (samples.length > MAX_SAMPLES) {
+        samples.shift()
+      }
+      if (ok) {
+        lastSuccessAt = at
+      } else {
+        lastErrorAt = at
+      }
+    },
+    summary() {
+      samples = samples.filter((sample) => Date.now() - sample.at <= MAX_AGE_MS)
+      if (samples.length === 0) {
+        return { calls: 0, errorRate: null, averageLatencyMs: null, p95LatencyMs: null, lastSuccessAt, lastErrorAt }
+      }
+      const latencies = samples.map((sample) => sample.latencyMs).sort((a, b) => a - b)
+      return {
+        calls: samples.length,
+        errorRate: samples.filter((sample) => !sample.ok).length / samples.length,
+        averageLatencyMs: Math.round(latencies.reduce((total, latency) => total + latency, 0) / latencies.length),
+        p95LatencyMs: latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))],
+        lastSuccessAt,
+        lastErrorAt,
+      }
+    },
+  }
+}
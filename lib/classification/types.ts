@@ -0,0 +1,34 @@
+export interface ClassificationImage {
+  // Raw image bytes, base64 encoded without the data URL prefix
+  base64: string
+  mimeType: string
+}
+
+export interface ClassificationLabel {
+  label: string
+  prob: number
+}
+
+export interface ProviderCallOptions {
+  // Aborts the upstream request, e.g. when the per-provider timeout is reached
+  signal?: AbortSignal
+}
+
+export interface ClassificationProvider {
+  readonly name: string
+  classify(image: ClassificationImage, options?: ProviderCallOptions): Promise<ClassificationLabel[]>
+  // Optional: providers without object detection only support classify()
+  detect?(image: ClassificationImage, options?: ProviderCallOptions): Promise<DetectedObject[]>
+}
+
+// Normalized to the image size: 0..1 from the top-left corner
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface DetectedObject extends ClassificationLabel {
+  box: BoundingBox
+}
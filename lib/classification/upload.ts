@@ -0,0 +1,150 @@
+import { envNumber } from "./env"
+import { ClassificationError } from "./errors"
+import { classifyModeSchema, formatIssues, recordsSchema, type ClassifyMode } from "./schema"
+import type { ClassificationImage } from "./types"
+
+// Providers reject anything much bigger, and the client already downscales captures
+const MAX_IMAGE_BYTES = envNumber("CLASSIFY_MAX_IMAGE_BYTES", 8 * 1024 * 1024)
+// Multipart framing adds a little on top of the image itself
+const MAX_BODY_BYTES = MAX_IMAGE_BYTES * 1.5
+
+export interface ClassifyUpload {
+  image: ClassificationImage
+  mode: ClassifyMode
+}
+
+// The declared Content-Type is not trusted; the file signature decides the type
+const SIGNATURES: { mimeType: string; matches: (bytes: Uint8Array) => boolean }[] = [
+  { mimeType: "image/jpeg", matches: (bytes) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff },
+  {
+    mimeType: "image/png",
+    matches: (bytes) => [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte),
+  },
+  {
+    mimeType: "image/webp",
+    matches: (bytes) => ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP",
+  },
+]
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end))
+}
+
+export function detectImageType(bytes: Uint8Array): string | null {
+  return SIGNATURES.find((signature) => signature.matches(bytes))?.mimeType ?? null
+}
+
+function tooLarge() {
+  return new ClassificationError("image_too_large", `Images must be at most ${MAX_IMAGE_BYTES} bytes`)
+}
+
+// Stops reading as soon as the body grows past the limit, so a chunked upload without
+// Content-Length is never buffered in full
+async function readBody(request: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+  const reader = request.body?.getReader()
+  if (!reader) {
+    return new Uint8Array()
+  }
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+  const bytes = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return bytes
+}
+
+function toImage(bytes: Uint8Array): ClassificationImage {
+  if (bytes.byteLength === 0) {
+    throw new ClassificationError("invalid_image", "The uploaded image is empty")
+  }
+  if (bytes.byteLength > MAX_IMAGE_BYTES) {
+    throw tooLarge()
+  }
+  const mimeType = detectImageType(bytes)
+  if (!mimeType) {
+    throw new ClassificationError("unsupported_media_type", "Only JPEG, PNG and WebP images are supported")
+  }
+  return { base64: Buffer.from(bytes).toString("base64"), mimeType }
+}
+
+function parseMode(value: unknown): ClassifyMode {
+  if (value === null || value === undefined || value === "") {
+    return "classify"
+  }
+  const parsed = classifyModeSchema.safeParse(value)
+  if (!parsed.success) {
+    throw new ClassificationError("invalid_request", 'mode must be "classify" or "detect"')
+  }
+  return parsed.data
+}
+
+function readRecords(records: string): Uint8Array {
+  let json: unknown
+  try {
+    json = JSON.parse(records)
+  } catch {
+    throw new ClassificationError("invalid_request", "The records field is not valid JSON")
+  }
+  const parsed = recordsSchema.safeParse(json)
+  if (!parsed.success) {
+    throw new ClassificationError("invalid_request", `Invalid records field: ${formatIssues(parsed.error)}`)
+  }
+  return Buffer.from(parsed.data[0]._base64.replace(/^data:[^,]*,/, ""), "base64")
+}
+
+// Accepts a multipart upload with an "image" (or "file") part, the legacy "records"
+// field, or a raw image/* body with the mode in the query string
+export async function readClassifyUpload(request: Request): Promise<ClassifyUpload> {
+  // Rejects honest oversized uploads before reading anything
+  const declaredLength = Number(request.headers.get("content-length"))
+  if (declaredLength > MAX_BODY_BYTES) {
+    throw tooLarge()
+  }
+
+  const contentType = request.headers.get("content-type") ?? ""
+  const queryMode = new URL(request.url).searchParams.get("mode")
+
+  if (contentType.startsWith("image/") || contentType.startsWith("application/octet-stream")) {
+    return { image: toImage(await readBody(request, MAX_IMAGE_BYTES)), mode: parseMode(queryMode) }
+  }
+
+  if (contentType.startsWith("multipart/form-data") || contentType.startsWith("application/x-www-form-urlencoded")) {
+    const body = await readBody(request, MAX_BODY_BYTES)
+    let formData: FormData
+    try {
+      formData = await new Response(body, { headers: { "content-type": contentType } }).formData()
+    } catch {
+      throw new ClassificationError("invalid_request", "The form data could not be parsed")
+    }
+    const mode = parseMode(formData.get("mode") ?? queryMode)
+    const file = formData.get("image") ?? formData.get("file")
+    if (file instanceof File) {
+      return { image: toImage(new Uint8Array(await file.arrayBuffer())), mode }
+    }
+    const records = formData.get("records")
+    if (typeof records === "string") {
+      return { image: toImage(readRecords(records)), mode }
+    }
+    throw new ClassificationError("invalid_request", 'Send the photo as an "image" file part')
+  }
+
+  throw new ClassificationError(
+    "unsupported_media_type",
+    "Send multipart/form-data with an image file, or a raw image/jpeg, image/png or image/webp body",
+  )
+}
@@ -0,0 +1,143 @@
+import type { CameraErrorCode } from "@/lib/camera/errors"
+import type { ImageFileErrorCode } from "@/lib/capture/errors"
+import type { ClassificationErrorCode } from "@/lib/classification/errors"
+
+export * from "./permissions"
+
+// User-facing copy for everything that can go wrong while scanning, kept in one
+// place so every screen explains the same failure the same way.
+export interface ErrorEntry {
+  title: string
+  // What happened and what to do about it, in the user's terms
+  description: string
+  // Whether repeating the same action can succeed
+  retryable: boolean
+}
+
+export const CAMERA_ERRORS: Record<CameraErrorCode, ErrorEntry> = {
+  permission_denied: {
+    title: "Camera access is blocked",
+    description: "TaponTama needs the camera to see your item. Allow camera access for this site, then try again.",
+    retryable: true,
+  },
+  not_found: {
+    title: "No camera found",
+    description: "We couldn't find a camera on this device. Connect one, or search for the item instead.",
+    retryable: true,
+  },
+  in_use: {
+    title: "The camera is busy",
+    description: "Another app or tab is using the camera. Close it and try again.",
+    retryable: true,
+  },
+  insecure_context: {
+    title: "Camera needs a secure connection",
+    description: "Browsers only allow the camera on HTTPS pages. Open TaponTama over https:// instead.",
+    retryable: false,
+  },
+  unsupported: {
+    title: "Camera not supported",
+    description: "This browser can't use the camera. Try a recent version of Chrome, Firefox or Safari.",
+    retryable: false,
+  },
+  not_ready: {
+    title: "Camera isn't ready yet",
+    description: "Wait a moment for the picture to appear, then capture again.",
+    retryable: true,
+  },
+  capture_failed: {
+    title: "Couldn't take the photo",
+    description: "Something went wrong while capturing. Please try again.",
+    retryable: true,
+  },
+  unknown: {
+    title: "Couldn't start the camera",
+    description: "Check that camera access is allowed for this site and try again.",
+    retryable: true,
+  },
+}
+
+export const IMAGE_FILE_ERRORS: Record<ImageFileErrorCode, ErrorEntry> = {
+  unsupported_type: {
+    title: "That file isn't a supported photo",
+    description: "Choose a JPEG, PNG, WebP or HEIC photo.",
+    retryable: false,
+  },
+  unreadable: {
+    title: "Couldn't open that photo",
+    description: "The file may be damaged or in a format this browser can't read. Try another photo.",
+    retryable: false,
+  },
+}
+
+// Changes to the scan history kept on this device
+export const HISTORY_ERRORS: Record<"delete_failed" | "clear_failed", ErrorEntry> = {
+  delete_failed: {
+    title: "Couldn't delete that scan",
+    description: "Your history on this device could not be changed. Try again, or reload the page.",
+    retryable: true,
+  },
+  clear_failed: {
+    title: "Couldn't clear your history",
+    description: "Your history on this device could not be changed. Try again, or reload the page.",
+    retryable: true,
+  },
+}
+
+export const CLASSIFICATION_ERRORS: Record<ClassificationErrorCode, ErrorEntry> = {
+  invalid_request: {
+    title: "We couldn't classify this",
+    description: "Something went wrong while sending the photo. Please try again.",
+    retryable: true,
+  },
+  invalid_image: {
+    title: "We couldn't classify this",
+    description: "The photo couldn't be read. Retake it with the item in clear view.",
+    retryable: false,
+  },
+  image_too_large: {
+    title: "We couldn't classify this",
+    description: "The photo is too large to upload. Try taking it again.",
+    retryable: false,
+  },
+  unsupported_media_type: {
+    title: "We couldn't classify this",
+    description: "This image format isn't supported. Use a JPEG, PNG or WebP photo.",
+    retryable: false,
+  },
+  no_match: {
+    title: "We couldn't classify this",
+    description: "We couldn't recognise the item in this photo.",
+    retryable: true,
+  },
+  provider_unavailable: {
+    title: "We couldn't classify this",
+    description: "The classification service is unavailable right now. Check your connection and try again.",
+    retryable: true,
+  },
+  rate_limited: {
+    title: "Slow down a little",
+    description: "You've scanned a lot in a short time. Please wait a moment before trying again.",
+    retryable: true,
+  },
+  quota_exceeded: {
+    title: "We couldn't classify this",
+    description: "The classification service has reached its usage limit. Please try again later.",
+    retryable: true,
+  },
+  timeout: {
+    title: "We couldn't classify this",
+    description: "The classification service took too long to respond.",
+    retryable: true,
+  },
+}
+
+export function formatWait(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? "" : "s"}`
+  }
+  if (seconds < 3600) {
+    return `${Math.ceil(seconds / 60)} minute${seconds > 60 ? "s" : ""}`
+  }
+  return `${Math.ceil(seconds / 3600)} hour${seconds > 3600 ? "s" : ""}`
+}
@@ -0,0 +1,66 @@
+export type BrowserFamily = "ios" | "android-chrome" | "samsung" | "edge" | "chrome" | "firefox" | "safari" | "other"
+
+// Only used to pick instructions, never to gate features
+export function detectBrowser(userAgent: string, maxTouchPoints = 0): BrowserFamily {
+  // iPadOS reports itself as a Mac; every iOS browser shares Safari's permission model
+  if (/iPhone|iPad|iPod/.test(userAgent) || (/Macintosh/.test(userAgent) && maxTouchPoints > 1)) {
+    return "ios"
+  }
+  if (/SamsungBrowser/.test(userAgent)) {
+    return "samsung"
+  }
+  if (/Edg\//.test(userAgent)) {
+    return "edge"
+  }
+  if (/Firefox\//.test(userAgent)) {
+    return "firefox"
+  }
+  if (/Chrome\//.test(userAgent)) {
+    return /Android/.test(userAgent) ? "android-chrome" : "chrome"
+  }
+  if (/Safari\//.test(userAgent)) {
+    return "safari"
+  }
+  return "other"
+}
+
+const CAMERA_PERMISSION_STEPS: Record<BrowserFamily, string[]> = {
+  ios: [
+    "Tap the aA button in the address bar, then Website Settings.",
+    "Set Camera to Allow.",
+    "If the camera is still blocked, open Settings, find your browser and turn on Camera.",
+  ],
+  "android-chrome": [
+    "Tap the icon at the left of the address bar, then Permissions.",
+    "Turn Camera on.",
+    "If Chrome itself has no camera access, open Android Settings > Apps > Chrome > Permissions > Camera.",
+  ],
+  samsung: [
+    "Open the menu and go to Settings > Sites and downloads > Site permissions > Camera.",
+    "Remove this site from the blocked list.",
+  ],
+  edge: [
+    "Click the lock icon at the left of the address bar.",
+    "Under Permissions for this site, set Camera to Allow.",
+  ],
+  chrome: [
+    "Click the site settings icon at the left of the address bar.",
+    "Set Camera to Allow, or click Reset permission.",
+  ],
+  firefox: [
+    "Click the crossed-out camera icon in the address bar.",
+    "Clear the Blocked setting next to Use the Camera.",
+  ],
+  safari: [
+    "Choose Safari > Settings, then the Websites tab.",
+    "Select Camera and set this website to Allow.",
+  ],
+  other: [
+    "Open your browser's site settings for this page.",
+    "Allow access to the camera.",
+  ],
+}
+
+export function cameraPermissionSteps(browser: BrowserFamily): string[] {
+  return [...CAMERA_PERMISSION_STEPS[browser], "Come back to this page and tap Try Again."]
+}
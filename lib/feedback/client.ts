@@ -0,0 +1,71 @@
+import type { ClassificationResult } from "@/lib/classification/result"
+import { updateScan } from "@/lib/history"
+import { createThumbnail } from "@/lib/history/thumbnail"
+import { logger } from "@/lib/logger"
+import { taxonomy } from "@/lib/taxonomy"
+import type { FeedbackMethod, FeedbackSubmission } from "./schema"
+
+const FEEDBACK_IMAGE_SIZE = 512
+
+export interface CorrectionInput {
+  // History entry to update; null when the scan was not saved
+  scanId: string | null
+  // Captured photo as a data URL
+  image: string
+  resultIndex: number
+  original: ClassificationResult
+  corrected: ClassificationResult
+  method?: FeedbackMethod
+}
+
+// Records the correction on-device and sends it to /api/feedback. Both are best
+// effort: a failed upload must not undo the correction the user just made.
+export async function recordCorrection({
+  scanId,
+  image,
+  resultIndex,
+  original,
+  corrected,
+  method = "search",
+}: CorrectionInput) {
+  const createdAt = Date.now()
+
+  if (scanId) {
+    try {
+      await updateScan(scanId, (scan) => ({
+        ...scan,
+        results: scan.results.map((result, index) => (index === resultIndex ? corrected : result)),
+        corrections: [...scan.corrections, { resultIndex, itemId: corrected.itemId, original, createdAt }],
+      }))
+    } catch (error) {
+      logger.error("unable to save correction to history", { error })
+    }
+  }
+
+  try {
+    const feedbackImage = await createThumbnail(image, FEEDBACK_IMAGE_SIZE)
+    const submission: FeedbackSubmission = {
+      image: feedbackImage.split(",")[1],
+      prediction: {
+        itemId: original.itemId,
+        confidence: original.confidence,
+        source: original.source,
+        box: original.box,
+      },
+      correctedItemId: corrected.itemId,
+      method,
+      taxonomyVersion: taxonomy.version,
+      createdAt,
+    }
+    const response = await fetch("/api/feedback", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    })
+    if (!response.ok) {
+      logger.error("feedback upload failed", { status: response.status })
+    }
+  } catch (error) {
+    logger.error("unable to send feedback", { error })
+  }
+}
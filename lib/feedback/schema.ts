@@ -0,0 +1,29 @@
+import { z } from "zod"
+import { boundingBoxSchema, classificationSourceSchema } from "@/lib/classification/schema"
+
+// Roughly a 512px JPEG; full-resolution captures are not needed for retraining
+const MAX_IMAGE_BASE64_LENGTH = 1_500_000
+
+// The image plus room for the prediction and metadata fields
+export const MAX_FEEDBACK_BODY_BYTES = MAX_IMAGE_BASE64_LENGTH + 16 * 1024
+
+const predictionSchema = z.object({
+  itemId: z.string().min(1),
+  confidence: z.number().min(0).max(100),
+  source: classificationSourceSchema,
+  box: boundingBoxSchema.optional(),
+})
+
+export const feedbackSchema = z.object({
+  // Base64 JPEG, PNG or WebP without the data URL prefix
+  image: z.string().min(1).max(MAX_IMAGE_BASE64_LENGTH),
+  prediction: predictionSchema,
+  correctedItemId: z.string().min(1),
+  // "search" for the "Not right?" dialog, "candidate" for a pick from the top candidates
+  method: z.enum(["search", "candidate"]).default("search"),
+  taxonomyVersion: z.string().min(1),
+  createdAt: z.number().int().positive(),
+})
+
+export type FeedbackSubmission = z.infer<typeof feedbackSchema>
+export type FeedbackMethod = FeedbackSubmission["method"]
@@ -0,0 +1,32 @@
+import { randomUUID } from "node:crypto"
+import { appendFile, mkdir, writeFile } from "node:fs/promises"
+import path from "node:path"
+import type { FeedbackSubmission } from "./schema"
+
+// Corrections are appended to corrections.jsonl with each image saved next to it, which
+// is easy to sync into a labelling or retraining pipeline. FEEDBACK_DIR moves the folder.
+function feedbackDir() {
+  return process.env.FEEDBACK_DIR ?? path.join(process.cwd(), "data", "feedback")
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+}
+
+export async function saveFeedback(feedback: FeedbackSubmission, mimeType: string): Promise<string> {
+  const dir = feedbackDir()
+  const id = randomUUID()
+  await mkdir(path.join(dir, "images"), { recursive: true })
+
+  const imageFile = path.join("images", `${id}.${EXTENSIONS[mimeType] ?? "jpg"}`)
+  await writeFile(path.join(dir, imageFile), Buffer.from(feedback.image, "base64"))
+
+  const { image: _image, ...entry } = feedback
+  await appendFile(
+    path.join(dir, "corrections.jsonl"),
+    JSON.stringify({ id, ...entry, imageFile, receivedAt: Date.now() }) + "\n",
+  )
+  return id
+}
@@ -0,0 +1,113 @@
+import type { ScanFilter, ScanRecord } from "./types"
+
+export * from "./types"
+
+const DB_NAME = "tapontama"
+const DB_VERSION = 2
+const SCANS = "scans"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          const store = request.result.createObjectStore(SCANS, { keyPath: "id" })
+          store.createIndex("createdAt", "createdAt")
+        }
+        if (event.oldVersion === 1) {
+          // v1 stored a single `result`; scans now hold one result per detected object
+          const cursorRequest = request.transaction!.objectStore(SCANS).openCursor()
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result
+            if (cursor) {
+              const { result, ...scan } = cursor.value
+              cursor.update({ ...scan, results: [result] })
+              cursor.continue()
+            }
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(SCANS, mode).objectStore(SCANS)))
+}
+
+export async function addScan(scan: Omit<ScanRecord, "id" | "createdAt" | "corrections">): Promise<ScanRecord> {
+  const record: ScanRecord = {
+    ...scan,
+    id: crypto.randomUUID(),
+    createdAt: Date.now(),
+    corrections: [],
+  }
+  await withStore("readwrite", (store) => store.add(record))
+  return record
+}
+
+// Reads and writes in one transaction so concurrent updates to the same scan can't
+// overwrite each other. `update` must be synchronous to keep the transaction open.
+export async function updateScan(id: string, update: (record: ScanRecord) => ScanRecord): Promise<ScanRecord | undefined> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SCANS, "readwrite")
+    const store = transaction.objectStore(SCANS)
+    let updated: ScanRecord | undefined
+    const request = store.get(id)
+    request.onsuccess = () => {
+      const existing = request.result as ScanRecord | undefined
+      if (!existing) {
+        return
+      }
+      try {
+        updated = update(existing)
+        store.put(updated)
+      } catch (error) {
+        transaction.abort()
+        reject(error)
+      }
+    }
+    transaction.oncomplete = () => resolve(updated)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Newest first. History stays small enough on-device that filtering in memory is fine.
+export async function listScans(filter: ScanFilter = {}): Promise<ScanRecord[]> {
+  const scans = await withStore<ScanRecord[]>("readonly", (store) => store.index("createdAt").getAll())
+  return scans
+    .filter(
+      (scan) =>
+        (!filter.category || scan.results.some((result) => result.type === filter.category)) &&
+        (filter.from === undefined || scan.createdAt >= filter.from) &&
+        (filter.to === undefined || scan.createdAt <= filter.to),
+    )
+    .reverse()
+}
+
+export async function deleteScan(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id))
+}
+
+export async function clearScans(): Promise<void> {
+  await withStore("readwrite", (store) => store.clear())
+}
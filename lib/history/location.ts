@@ -0,0 +1,14 @@
+// Resolves to undefined when geolocation is unavailable, denied or slow; location is optional
+export function getCurrentLocation(timeout = 5000): Promise<GeolocationCoordinates | undefined> {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(undefined)
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(position.coords),
+      () => resolve(undefined),
+      { timeout, maximumAge: 60_000 },
+    )
+  })
+}
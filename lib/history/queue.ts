@@ -0,0 +1,69 @@
+import { ClassifyRequestError, requestClassification } from "@/lib/classification/client"
+import { logger } from "@/lib/logger"
+import { addScan, listScans, updateScan } from "./index"
+import type { ScanLocation, ScanRecord } from "./types"
+
+// Must match the tag handled in public/sw.js
+export const QUEUE_SYNC_TAG = "classify-queue"
+
+// Background Sync is not in the TypeScript DOM lib yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> }
+}
+
+let processing: Promise<number> | null = null
+
+export async function queueScan(image: string, thumbnail: string, location?: ScanLocation): Promise<ScanRecord> {
+  const record = await addScan({ thumbnail, results: [], location, status: "pending", image })
+  await requestBackgroundSync()
+  return record
+}
+
+// Asks the service worker to wake the app when connectivity returns. Browsers without
+// Background Sync rely on the "online" event in useOfflineQueue instead.
+export async function requestBackgroundSync() {
+  if (!("serviceWorker" in navigator)) {
+    return
+  }
+  try {
+    const registration: SyncCapableRegistration = await navigator.serviceWorker.ready
+    await registration.sync?.register(QUEUE_SYNC_TAG)
+  } catch (error) {
+    logger.warn("unable to register background sync", { error })
+  }
+}
+
+async function drainQueue(): Promise<number> {
+  const pending = (await listScans()).filter((scan) => scan.status === "pending").reverse()
+  let processed = 0
+
+  for (const scan of pending) {
+    if (!scan.image) {
+      continue
+    }
+    try {
+      const results = await requestClassification(scan.image)
+      await updateScan(scan.id, ({ image: _image, status: _status, ...rest }) => ({ ...rest, results }))
+      processed++
+    } catch (error) {
+      if (error instanceof ClassifyRequestError && (error.offline || error.retryAfterSeconds !== undefined)) {
+        // Still offline or rate limited: keep the rest queued for the next sync
+        break
+      }
+      const failure = error instanceof ClassifyRequestError ? error.code : "provider_unavailable"
+      await updateScan(scan.id, ({ image: _image, ...rest }) => ({ ...rest, status: "failed", failure }))
+      processed++
+    }
+  }
+  return processed
+}
+
+// Classifies queued scans oldest first. Concurrent callers share the same run.
+export function processQueue(): Promise<number> {
+  if (!processing) {
+    processing = drainQueue().finally(() => {
+      processing = null
+    })
+  }
+  return processing
+}
@@ -0,0 +1,23 @@
+const THUMBNAIL_SIZE = 160
+
+// Downscales a captured data URL so history entries stay a few KB each
+export function createThumbnail(dataUrl: string, size = THUMBNAIL_SIZE): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const scale = Math.min(1, size / Math.max(image.width, image.height))
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(image.width * scale)
+      canvas.height = Math.round(image.height * scale)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        reject(new Error("Unable to get canvas context"))
+        return
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL("image/jpeg", 0.7))
+    }
+    image.onerror = () => reject(new Error("Unable to load captured image"))
+    image.src = dataUrl
+  })
+}
@@ -0,0 +1,42 @@
+import type { ClassificationErrorCode } from "@/lib/classification/errors"
+import type { ClassificationResult } from "@/lib/classification/result"
+
+export interface ScanLocation {
+  latitude: number
+  longitude: number
+  accuracy: number
+}
+
+export interface ScanCorrection {
+  // Which of the scan's results was corrected
+  resultIndex: number
+  // Taxonomy item the user says the scan actually shows
+  itemId: string
+  // The prediction as it was before the user corrected it
+  original: ClassificationResult
+  createdAt: number
+}
+
+export interface ScanRecord {
+  id: string
+  createdAt: number
+  // Small JPEG data URL, not the full capture
+  thumbnail: string
+  // One entry per detected object; a single entry for plain classification
+  results: ClassificationResult[]
+  location?: ScanLocation
+  corrections: ScanCorrection[]
+  // Unset once classified. "pending" scans were captured offline and wait in the queue.
+  status?: "pending" | "failed"
+  // Full capture, kept only until a pending scan has been classified
+  image?: string
+  failure?: ClassificationErrorCode
+}
+
+export interface ScanFilter {
+  // Matches scans where any result has this category
+  category?: ClassificationResult["type"]
+  // Inclusive epoch millisecond bounds
+  from?: number
+  to?: number
+}
@@ -0,0 +1,107 @@
+import { z } from "zod"
+import { CATEGORY_INFO, getTaxonomyItem, WASTE_CATEGORIES, type ClarificationOutcome } from "@/lib/taxonomy"
+import davaoCity from "./data/davao-city.json"
+import quezonCity from "./data/quezon-city.json"
+import type { DisposalGuide, LocalityRulePack } from "./types"
+
+export * from "./types"
+
+// Rule packs are registered here; add a JSON file under ./data and list it below.
+const RULE_PACK_DATA: unknown[] = [quezonCity, davaoCity]
+
+const categorySchema = z.enum(WASTE_CATEGORIES)
+
+const binSchema = z.object({
+  color: z.enum(["green", "blue", "black", "red", "yellow", "orange", "gray", "white"]),
+  label: z.string().min(1),
+})
+
+const rulePackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "locality ids must be lowercase kebab-case"),
+  name: z.string().min(1),
+  region: z.string().min(1),
+  version: z.string().min(1),
+  // Ordinance or LGU page the rules come from. lastVerified is only set once someone
+  // has checked the pack against it; until then the app flags the rules as unverified.
+  source: z.string().url(),
+  lastVerified: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "lastVerified must be a YYYY-MM-DD date")
+    .optional(),
+  bins: z.record(categorySchema, binSchema),
+  // Only for schedules taken from a cited source
+  collection: z.record(categorySchema, z.array(z.string().min(1))).optional(),
+  overrides: z.record(
+    z.object({
+      category: categorySchema.optional(),
+      bin: binSchema.optional(),
+      tips: z.array(z.string().min(1)).min(1).optional(),
+    }),
+  ),
+})
+
+export class RulePackError extends Error {
+  constructor(packId: string, message: string) {
+    super(`Invalid locality rule pack "${packId}": ${message}`)
+    this.name = "RulePackError"
+  }
+}
+
+export function loadRulePack(raw: unknown): LocalityRulePack {
+  const parsed = rulePackSchema.safeParse(raw)
+  const packId = String((raw as { id?: unknown })?.id ?? "unknown")
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+    throw new RulePackError(packId, issues.join("; "))
+  }
+
+  const unknownItems = Object.keys(parsed.data.overrides).filter((itemId) => !getTaxonomyItem(itemId))
+  if (unknownItems.length > 0) {
+    throw new RulePackError(packId, `overrides reference unknown taxonomy items: ${unknownItems.join(", ")}`)
+  }
+
+  return parsed.data
+}
+
+export const localities: LocalityRulePack[] = RULE_PACK_DATA.map(loadRulePack).sort((a, b) =>
+  a.name.localeCompare(b.name),
+)
+
+export function getLocality(id: string | null | undefined): LocalityRulePack | undefined {
+  return id ? localities.find((locality) => locality.id === id) : undefined
+}
+
+// Combines the taxonomy defaults for an item with the selected locality's rules.
+// Without a locality the national defaults from the taxonomy are returned. Answers
+// to the item's clarification questions take precedence over both.
+export function getDisposalGuide(
+  itemId: string,
+  localityId?: string | null,
+  clarification: ClarificationOutcome = {},
+): DisposalGuide | undefined {
+  const item = getTaxonomyItem(itemId)
+  if (!item) {
+    return undefined
+  }
+
+  const locality = getLocality(localityId)
+  if (!locality) {
+    const category = clarification.category ?? item.category
+    return {
+      category,
+      steps: [...(clarification.tips ?? item.disposal), ...CATEGORY_INFO[category].flow],
+    }
+  }
+
+  const override = locality.overrides[item.id] ?? {}
+  const category = clarification.category ?? override.category ?? item.category
+  // An item-specific bin only applies while the item stays in its usual category
+  const bin = clarification.category ? locality.bins[category] : (override.bin ?? locality.bins[category])
+  return {
+    category,
+    steps: [...(clarification.tips ?? override.tips ?? item.disposal), ...CATEGORY_INFO[category].flow],
+    bin,
+    collectionDays: locality.collection?.[category],
+    locality: { id: locality.id, name: locality.name, verified: locality.lastVerified !== undefined },
+  }
+}
@@ -0,0 +1,38 @@
+import type { WasteCategory } from "@/lib/taxonomy"
+
+export type BinColor = "green" | "blue" | "black" | "red" | "yellow" | "orange" | "gray" | "white"
+
+export interface BinInfo {
+  color: BinColor
+  label: string
+}
+
+export interface ItemOverride {
+  category?: WasteCategory
+  bin?: BinInfo
+  // Replaces the taxonomy disposal steps for the item when present
+  tips?: string[]
+}
+
+export interface LocalityRulePack {
+  id: string
+  name: string
+  region: string
+  version: string
+  // Ordinance or LGU page URL the rules come from
+  source: string
+  // YYYY-MM-DD; unset until the pack has been checked against the source
+  lastVerified?: string
+  bins: Partial<Record<WasteCategory, BinInfo>>
+  // Collection days per category, as shown to residents
+  collection?: Partial<Record<WasteCategory, string[]>>
+  overrides: Record<string, ItemOverride>
+}
+
+export interface DisposalGuide {
+  category: WasteCategory
+  steps: string[]
+  bin?: BinInfo
+  collectionDays?: string[]
+  locality?: Pick<LocalityRulePack, "id" | "name"> & { verified: boolean }
+}
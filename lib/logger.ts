@@ -0,0 +1,111 @@
+// Minimal structured logger shared by the API routes and the client. On the server
+// every entry is one JSON line, so hosting log search can filter by field; in the
+// browser entries go to the matching console method.
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // Returns a logger that adds these fields to every entry, e.g. a request id
+  child(fields: LogFields): Logger
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const isServer = typeof window === "undefined"
+
+function configuredLevel(): LogLevel {
+  const level = isServer ? process.env.LOG_LEVEL : process.env.NEXT_PUBLIC_LOG_LEVEL
+  if (level && level in LEVELS) {
+    return level as LogLevel
+  }
+  return process.env.NODE_ENV === "production" ? "info" : "debug"
+}
+
+const SECRET_KEY = /token|secret|password|authorization|api[-_]?key|cookie/i
+const IMAGE_KEY = /^_?base64$|^image$|^imageData$/i
+// Long base64 runs and data URLs are image payloads no matter which key holds them
+const IMAGE_VALUE = /^data:[\w/+.-]+;base64,|^[A-Za-z0-9+/=]{512,}$/
+
+// Strips secrets and image payloads from anything about to be logged
+export function redact(value: unknown, key = "", depth = 0): unknown {
+  if (key && SECRET_KEY.test(key)) {
+    return "[redacted]"
+  }
+  if (typeof value === "string") {
+    return (key && IMAGE_KEY.test(key)) || IMAGE_VALUE.test(value) ? `[image: ${value.length} chars]` : value
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...("code" in value ? { code: value.code } : {}),
+      stack: value.stack,
+    }
+  }
+  if (value === null || typeof value !== "object" || depth > 5) {
+    return value
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, key, depth + 1))
+  }
+  return Object.fromEntries(Object.entries(value).map(([entryKey, entry]) => [entryKey, redact(entry, entryKey, depth + 1)]))
+}
+
+export function createLogger(bindings: LogFields = {}): Logger {
+  const minimum = LEVELS[configuredLevel()]
+
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < minimum) {
+      return
+    }
+    const entry = redact({ ...bindings, ...fields }) as LogFields
+    if (isServer) {
+      const line = JSON.stringify({ time: new Date().toISOString(), level, message, ...entry })
+      if (level === "error" || level === "warn") {
+        console.error(line)
+      } else {
+        console.log(line)
+      }
+    } else {
+      console[level](message, entry)
+    }
+  }
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+    child: (fields) => createLogger({ ...bindings, ...fields }),
+  }
+}
+
+export const logger = createLogger()
+
+// Collects how long each stage of a request took, in milliseconds
+export function createStageTimer() {
+  const startedAt = Date.now()
+  const timings: Record<string, number> = {}
+
+  return {
+    async time<T>(stage: string, run: () => Promise<T>): Promise<T> {
+      const stageStart = Date.now()
+      try {
+        return await run()
+      } finally {
+        timings[stage] = (timings[stage] ?? 0) + Date.now() - stageStart
+      }
+    },
+    timings(): Record<string, number> {
+      return { ...timings, total: Date.now() - startedAt }
+    },
+  }
+}
+
+export type StageTimer = ReturnType<typeof createStageTimer>
@@ -0,0 +1,66 @@
+import type { WasteCategory } from "./types"
+
+export const WASTE_CATEGORIES = [
+  "biodegradable",
+  "recyclable",
+  "residual",
+  "hazardous",
+  "e-waste",
+  "reusable",
+  "medical",
+] as const satisfies readonly WasteCategory[]
+
+export interface CategoryInfo {
+  label: string
+  summary: string
+  // General handling that applies to every item in the category, shown after the item's own steps
+  flow: string[]
+}
+
+export const CATEGORY_INFO: Record<WasteCategory, CategoryInfo> = {
+  biodegradable: {
+    label: "Biodegradable",
+    summary: "Breaks down naturally and can be composted.",
+    flow: ["Put in the biodegradable (green) bin or your compost pit."],
+  },
+  recyclable: {
+    label: "Recyclable",
+    summary: "Can be processed into new materials.",
+    flow: ["Keep clean and dry.", "Bring to the recyclables (blue) bin or your barangay MRF."],
+  },
+  residual: {
+    label: "Residual Waste",
+    summary: "Cannot be composted or recycled and goes to disposal.",
+    flow: ["Put in the residual (black) bin for scheduled collection."],
+  },
+  hazardous: {
+    label: "Hazardous / Special Waste",
+    summary: "Contains chemicals that can injure people or contaminate soil and water.",
+    flow: [
+      "Never mix with household waste or burn it.",
+      "Store in a sealed container away from children.",
+      "Hand over at a special waste drop-off or collection day.",
+    ],
+  },
+  "e-waste": {
+    label: "E-Waste",
+    summary: "Electronics contain metals that can be recovered and toxins that must be contained.",
+    flow: [
+      "Do not dismantle or throw in the regular bins.",
+      "Bring to an accredited e-waste collection point or a store take-back program.",
+    ],
+  },
+  reusable: {
+    label: "Reusable / Donate",
+    summary: "Still has a useful life with someone else.",
+    flow: ["Clean it up.", "Donate, sell or give it away before considering disposal."],
+  },
+  medical: {
+    label: "Medical Waste",
+    summary: "May carry infection or cause injury to waste workers.",
+    flow: [
+      "Seal in a puncture-proof container or double bag it.",
+      "Label it and hand it to a health center or designated medical waste collection.",
+    ],
+  },
+}
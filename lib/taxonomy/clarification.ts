@@ -0,0 +1,41 @@
+import type { ClarificationAnswer, ClarificationOutcome, ClarificationQuestion, TaxonomyItem } from "./types"
+
+export interface ClarificationStep {
+  questionId: string
+  answerId: string
+}
+
+export interface ClarificationProgress {
+  // Unset once the answers reach the end of the item's questions
+  question?: ClarificationQuestion
+  // Outcomes of the answers so far, later answers winning
+  outcome: ClarificationOutcome
+  // Steps that matched the item's questions, in the order they were asked
+  steps: ClarificationStep[]
+}
+
+export function hasClarification(item: TaxonomyItem): boolean {
+  return (item.questions?.length ?? 0) > 0
+}
+
+// Replays the answers given so far against the item's questions. Steps that no
+// longer line up with the path (say the taxonomy changed) end the walk there.
+export function walkClarification(item: TaxonomyItem, steps: ClarificationStep[]): ClarificationProgress {
+  const questions = item.questions ?? []
+  let question: ClarificationQuestion | undefined = questions[0]
+  let outcome: ClarificationOutcome = {}
+  const matched: ClarificationStep[] = []
+
+  for (const step of steps) {
+    const answer: ClarificationAnswer | undefined =
+      question?.id === step.questionId ? question.answers.find(({ id }) => id === step.answerId) : undefined
+    if (!answer) {
+      break
+    }
+    matched.push(step)
+    outcome = { ...outcome, ...answer.outcome }
+    question = answer.next ? questions.find(({ id }) => id === answer.next) : undefined
+  }
+
+  return { question, outcome, steps: matched }
+}
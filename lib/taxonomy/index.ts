@@ -0,0 +1,159 @@
+import { z } from "zod"
+import { WASTE_CATEGORIES } from "./categories"
+import data from "./data/taxonomy.json"
+import type { Taxonomy, TaxonomyItem } from "./types"
+
+export * from "./categories"
+export * from "./clarification"
+export * from "./types"
+
+const idSchema = z.string().regex(/^[a-z0-9_]+$/, "ids must be lowercase snake_case")
+
+const questionSchema = z.object({
+  id: idSchema,
+  text: z.string().min(1),
+  answers: z
+    .array(
+      z.object({
+        id: idSchema,
+        label: z.string().min(1),
+        next: z.string().optional(),
+        outcome: z
+          .object({
+            category: z.enum(WASTE_CATEGORIES).optional(),
+            tips: z.array(z.string().min(1)).min(1).optional(),
+          })
+          .optional(),
+      }),
+    )
+    .min(2),
+})
+
+const itemSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, "item ids must be lowercase snake_case"),
+  name: z.string().min(1),
+  synonyms: z.array(z.string()),
+  providerLabels: z.record(z.array(z.string())),
+  category: z.enum(WASTE_CATEGORIES),
+  disposal: z.array(z.string().min(1)).min(1),
+  hazards: z.array(z.enum(["corrosive", "flammable", "infectious", "sharp", "toxic"])),
+  questions: z.array(questionSchema).min(1).optional(),
+  alwaysAsk: z.boolean().optional(),
+})
+
+const taxonomySchema = z.object({
+  version: z.string().min(1),
+  providers: z.record(z.array(z.string())),
+  items: z.array(itemSchema).min(1),
+})
+
+export class TaxonomyError extends Error {
+  constructor(message: string) {
+    super(`Invalid waste taxonomy: ${message}`)
+    this.name = "TaxonomyError"
+  }
+}
+
+export function normalizeLabel(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_")
+}
+
+interface LoadedTaxonomy extends Taxonomy {
+  byId: Map<string, TaxonomyItem>
+  // provider name (or "default") -> normalized label -> item id
+  labelIndex: Map<string, Map<string, string>>
+}
+
+function indexLabels(items: TaxonomyItem[]) {
+  const labelIndex = new Map<string, Map<string, string>>()
+  for (const item of items) {
+    const sources = { ...item.providerLabels, default: [item.id, ...(item.providerLabels.default ?? [])] }
+    for (const [provider, labels] of Object.entries(sources)) {
+      const index = labelIndex.get(provider) ?? new Map<string, string>()
+      labelIndex.set(provider, index)
+      for (const label of labels) {
+        const key = normalizeLabel(label)
+        const existing = index.get(key)
+        if (existing && existing !== item.id) {
+          throw new TaxonomyError(`label "${label}" (${provider}) maps to both "${existing}" and "${item.id}"`)
+        }
+        index.set(key, item.id)
+      }
+    }
+  }
+  return labelIndex
+}
+
+export function loadTaxonomy(raw: unknown): LoadedTaxonomy {
+  const parsed = taxonomySchema.safeParse(raw)
+  if (!parsed.success) {
+    throw new TaxonomyError(parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; "))
+  }
+
+  const byId = new Map<string, TaxonomyItem>()
+  for (const item of parsed.data.items) {
+    if (byId.has(item.id)) {
+      throw new TaxonomyError(`duplicate item id "${item.id}"`)
+    }
+    byId.set(item.id, item)
+    checkQuestions(item)
+  }
+
+  const labelIndex = indexLabels(parsed.data.items)
+  const loaded: LoadedTaxonomy = { ...parsed.data, byId, labelIndex }
+
+  for (const [provider, labels] of Object.entries(parsed.data.providers)) {
+    const unmapped = labels.filter((label) => !resolveIn(loaded, label, provider))
+    if (unmapped.length > 0) {
+      throw new TaxonomyError(`${provider} labels without an item: ${unmapped.join(", ")}`)
+    }
+  }
+
+  return loaded
+}
+
+// Answers may only jump forward, so every path through the questions ends
+function checkQuestions(item: TaxonomyItem) {
+  const questions = item.questions ?? []
+  const ids = questions.map((question) => question.id)
+  questions.forEach((question, index) => {
+    if (ids.indexOf(question.id) !== index) {
+      throw new TaxonomyError(`${item.id}: duplicate question id "${question.id}"`)
+    }
+    for (const answer of question.answers) {
+      if (answer.next !== undefined && ids.indexOf(answer.next) <= index) {
+        throw new TaxonomyError(`${item.id}.${question.id}.${answer.id}: next must name a later question`)
+      }
+    }
+  })
+}
+
+function resolveIn(loaded: LoadedTaxonomy, label: string, provider?: string): TaxonomyItem | undefined {
+  const key = normalizeLabel(label)
+  const id = (provider && loaded.labelIndex.get(provider)?.get(key)) || loaded.labelIndex.get("default")?.get(key)
+  return id ? loaded.byId.get(id) : undefined
+}
+
+// Validated once when the module is first imported, on both server and client
+export const taxonomy = loadTaxonomy(data)
+
+export function getTaxonomyItem(id: string): TaxonomyItem | undefined {
+  return taxonomy.byId.get(id)
+}
+
+export function resolveProviderLabel(label: string, provider?: string): TaxonomyItem | undefined {
+  return resolveIn(taxonomy, label, provider)
+}
+
+export function searchTaxonomy(query: string, limit = 6): TaxonomyItem[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) {
+    return []
+  }
+  return taxonomy.items
+    .filter((item) => [item.name, ...item.synonyms].some((term) => term.toLowerCase().includes(needle)))
+    .slice(0, limit)
+}
@@ -0,0 +1,55 @@
+export type WasteCategory =
+  | "biodegradable"
+  | "recyclable"
+  | "residual"
+  | "hazardous"
+  | "e-waste"
+  | "reusable"
+  | "medical"
+
+export type HazardFlag = "corrosive" | "flammable" | "infectious" | "sharp" | "toxic"
+
+// What an answer changes about the disposal advice; unset fields keep the item's defaults
+export interface ClarificationOutcome {
+  category?: WasteCategory
+  // Replaces the item's disposal steps
+  tips?: string[]
+}
+
+export interface ClarificationAnswer {
+  id: string
+  label: string
+  // Question to ask next; the wizard finishes when an answer has none
+  next?: string
+  outcome?: ClarificationOutcome
+}
+
+// Follow-up for details a photo can't show, such as whether a container is clean
+export interface ClarificationQuestion {
+  id: string
+  text: string
+  answers: ClarificationAnswer[]
+}
+
+export interface TaxonomyItem {
+  id: string
+  name: string
+  // Everyday and local names users might search for
+  synonyms: string[]
+  // Raw provider labels that resolve to this item, keyed by provider name or "default"
+  providerLabels: Record<string, string[]>
+  category: WasteCategory
+  disposal: string[]
+  hazards: HazardFlag[]
+  // Asked in order from the first question when the result is uncertain
+  questions?: ClarificationQuestion[]
+  // Ask the questions even for confident results
+  alwaysAsk?: boolean
+}
+
+export interface Taxonomy {
+  version: string
+  // Label vocabulary each provider is known to emit; every entry must resolve to an item
+  providers: Record<string, string[]>
+  items: TaxonomyItem[]
+}
@@ -0,0 +1,172 @@
+// TaponTama service worker: keeps the app shell (and the taxonomy and rule packs,
+// which ship inside the JS bundle) available offline, and relays background sync
+// so scans captured offline are classified once connectivity returns.
+
+// Bumped so caches that may hold error responses from earlier versions are dropped
+const CACHE_VERSION = "v2"
+const SHELL_CACHE = `tapontama-shell-${CACHE_VERSION}`
+const STATIC_CACHE = `tapontama-static-${CACHE_VERSION}`
+const SHELL_URLS = ["/", "/history", "/manifest.webmanifest", "/icon.svg"]
+// Hashed assets from older deploys are never requested again; the oldest entries go
+// first once the cache grows past this
+const MAX_STATIC_ENTRIES = 200
+const QUEUE_SYNC_TAG = "classify-queue"
+// How long a window gets to drain the queue before the sync counts as failed; browsers
+// end sync events after a few minutes anyway
+const SYNC_REPLY_TIMEOUT_MS = 2 * 60 * 1000
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("tapontama-") && key !== SHELL_CACHE && key !== STATIC_CACHE)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  )
+})
+
+function isStaticAsset(url) {
+  return url.origin === self.location.origin && url.pathname.startsWith("/_next/static/")
+}
+
+async function trimStaticCache(cache) {
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_STATIC_ENTRIES)).map((key) => cache.delete(key)))
+}
+
+// Error responses are never stored, or a chunk missing mid-deploy would stay broken
+async function cacheStaticResponse(request, response) {
+  if (!response.ok) {
+    return
+  }
+  const cache = await caches.open(STATIC_CACHE)
+  await cache.put(request, response)
+  await trimStaticCache(cache)
+}
+
+// The first page load happens before the worker controls the page, so its bundles
+// never pass through the fetch handler; the page sends their URLs once we are active
+async function cacheLoadedAssets(urls) {
+  const cache = await caches.open(STATIC_CACHE)
+  for (const href of urls) {
+    const url = new URL(href, self.location.origin)
+    if (!isStaticAsset(url) || (await cache.match(url.href))) {
+      continue
+    }
+    try {
+      await cacheStaticResponse(url.href, await fetch(url.href))
+    } catch {
+      // Offline again; the fetch handler caches it on the next request
+    }
+  }
+}
+
+self.addEventListener("message", (event) => {
+  const data = event.data
+  if (data && data.type === "cache-assets" && Array.isArray(data.urls)) {
+    event.waitUntil(cacheLoadedAssets(data.urls))
+  }
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return
+  }
+
+  // Pages: network first so deploys show up, cached shell when offline
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          // Error pages must not replace the working shell used offline
+          if (response.ok) {
+            const copy = response.clone()
+            caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy))
+          }
+          return response
+        })
+        .catch(() => caches.match(request).then((cached) => cached || caches.match("/"))),
+    )
+    return
+  }
+
+  // Hashed build assets never change, so cache first
+  if (isStaticAsset(url)) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            event.waitUntil(cacheStaticResponse(request, response.clone()))
+            return response
+          }),
+      ),
+    )
+    return
+  }
+
+  // Everything else from public/: serve cached, refresh in the background
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const network = fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone()
+            caches.open(STATIC_CACHE).then((cache) => cache.put(request, copy))
+          }
+          return response
+        })
+        .catch(() => cached)
+      return cached || network
+    }),
+  )
+})
+
+// Resolves once the window reports the queue empty; it answers on the message port
+// with the number of scans still pending
+function askToProcessQueue(client) {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel()
+    const timer = setTimeout(() => reject(new Error("The app did not answer")), SYNC_REPLY_TIMEOUT_MS)
+    channel.port1.onmessage = ({ data }) => {
+      clearTimeout(timer)
+      if (data && data.pending === 0) {
+        resolve()
+      } else {
+        reject(new Error("Scans are still queued"))
+      }
+    }
+    client.postMessage({ type: "process-queue" }, [channel.port2])
+  })
+}
+
+// Classification needs the taxonomy code that lives in the app, so the worker asks
+// open windows to drain the queue and keeps the sync open until one has. A failed sync
+// is retried later by the browser. With no window open there is nobody to ask, so the
+// sync ends and the app drains the queue on next launch.
+self.addEventListener("sync", (event) => {
+  if (event.tag !== QUEUE_SYNC_TAG) {
+    return
+  }
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((clients) => (clients.length > 0 ? Promise.any(clients.map(askToProcessQueue)) : undefined)),
+  )
+})